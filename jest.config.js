@@ -14,6 +14,9 @@ module.exports = {
     '**/__tests__/**/*.(ts|js)'
   ],
 
+  // Benchmarks lancés à part : npm run test:bench
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/benchmarks/'],
+
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
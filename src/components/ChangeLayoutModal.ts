@@ -0,0 +1,175 @@
+// ====================================================================
+// 📁 src/components/ChangeLayoutModal.ts - Changement de layout d'une note
+// ====================================================================
+
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { BoardLayout, NoteSection, SectionMapping } from '../types';
+import { SectionUtils } from '../utils/sections';
+
+/**
+ * Modal de changement de layout avec correspondance des sections
+ *
+ * Les sections actuelles de la note sont listées face aux blocs du nouveau
+ * layout. Chaque section peut être associée à un bloc (plusieurs sections
+ * vers un même bloc sont fusionnées) ou conservée hors layout.
+ */
+export class ChangeLayoutModal extends Modal {
+    private static readonly KEEP_OUTSIDE = '';
+
+    private sections: NoteSection[] = [];
+    private layoutName = '';
+    private blocks: BoardLayout[] = [];
+    private mapping: SectionMapping = {};
+
+    private mappingEl!: HTMLElement;
+    private summaryEl!: HTMLElement;
+
+    constructor(app: App, private plugin: AgileBoardPlugin, private file: TFile) {
+        super(app);
+    }
+
+    async onOpen(): Promise<void> {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-change-layout-modal');
+        titleEl.setText(`🔀 Changer le layout de "${this.file.basename}"`);
+
+        const content = await this.app.vault.read(this.file);
+        this.sections = SectionUtils.splitNote(content, this.plugin.services.file.getHeadingLevel(this.file)).sections;
+
+        const current = this.app.metadataCache.getFileCache(this.file)?.frontmatter?.['agile-board'];
+        const layouts = this.plugin.services.layout.getAllModelsInfo()
+            .filter(info => info.name !== current);
+
+        if (layouts.length === 0) {
+            contentEl.createEl('p', { text: 'Aucun autre layout disponible.' });
+            return;
+        }
+
+        new Setting(contentEl)
+            .setName('Nouveau layout')
+            .setDesc(typeof current === 'string'
+                ? `Layout actuel : ${this.plugin.services.layout.getLayoutDisplayName(current)}`
+                : 'Layout actuel : grille inline')
+            .addDropdown(dropdown => {
+                layouts.forEach(info => dropdown.addOption(info.name, info.displayName));
+                dropdown.onChange(value => this.selectLayout(value));
+            });
+
+        contentEl.createEl('p', {
+            text: 'Associez chaque section à un bloc du nouveau layout. Plusieurs sections associées au même bloc sont fusionnées ; les sections conservées hors layout restent en fin de note.',
+            cls: 'setting-item-description'
+        });
+
+        this.mappingEl = contentEl.createDiv('agile-board-change-layout-mapping');
+        this.summaryEl = contentEl.createDiv('agile-board-change-layout-summary');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Annuler')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('🔀 Changer de layout')
+                .setCta()
+                .onClick(() => this.apply()));
+
+        this.selectLayout(layouts[0].name);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private selectLayout(layoutName: string): void {
+        this.layoutName = layoutName;
+        this.blocks = this.plugin.services.layout.getModel(layoutName) || [];
+        this.mapping = SectionUtils.suggestMapping(this.sections.map(section => section.name), this.blocks);
+        this.renderMapping();
+    }
+
+    // ===================================================================
+    // RENDU
+    // ===================================================================
+
+    private renderMapping(): void {
+        this.mappingEl.empty();
+
+        if (this.sections.length === 0) {
+            this.mappingEl.createEl('p', { text: 'La note ne contient aucune section : les sections du nouveau layout seront créées.' });
+        }
+
+        for (const section of this.sections) {
+            const lineCount = section.lines.filter(line => line.trim()).length;
+            new Setting(this.mappingEl)
+                .setName(section.name)
+                .setDesc(`${lineCount} ligne(s) de contenu`)
+                .addDropdown(dropdown => {
+                    dropdown.addOption(ChangeLayoutModal.KEEP_OUTSIDE, '— Conserver hors layout —');
+                    this.blocks.forEach(block => dropdown.addOption(block.title, `→ ${block.title}`));
+                    dropdown
+                        .setValue(this.mapping[section.name] ?? ChangeLayoutModal.KEEP_OUTSIDE)
+                        .onChange(value => {
+                            this.mapping[section.name] = value || undefined;
+                            this.renderSummary();
+                        });
+                });
+        }
+
+        this.renderSummary();
+    }
+
+    /**
+     * Vue côté nouveau layout : sections reçues par chaque bloc
+     */
+    private renderSummary(): void {
+        this.summaryEl.empty();
+        this.summaryEl.createEl('h4', { text: 'Résultat' });
+
+        const list = this.summaryEl.createEl('ul');
+        for (const block of this.blocks) {
+            const sources = this.sections
+                .filter(section => this.mapping[section.name] === block.title)
+                .map(section => section.name);
+
+            const item = list.createEl('li');
+            item.createEl('strong', { text: block.title });
+            item.appendText(sources.length > 0
+                ? ` ← ${sources.join(' + ')}${sources.length > 1 ? ' (fusion)' : ''}`
+                : ' (vide)');
+        }
+
+        const outside = this.sections.filter(section => !this.mapping[section.name]);
+        if (outside.length > 0) {
+            this.summaryEl.createEl('p', {
+                text: `Conservées hors layout : ${outside.map(section => section.name).join(', ')}`,
+                cls: 'setting-item-description'
+            });
+        }
+    }
+
+    // ===================================================================
+    // APPLICATION
+    // ===================================================================
+
+    private async apply(): Promise<void> {
+        // Redessiner les vues Board une fois le nouveau frontmatter indexé
+        // (écoute portée par le plugin : la modal est fermée avant l'indexation,
+        // et l'écoute est retirée au déchargement si l'index n'arrive jamais)
+        const ref = this.app.metadataCache.on('changed', file => {
+            if (file.path !== this.file.path) return;
+            this.app.metadataCache.offref(ref);
+            this.plugin.refreshBoardViews(this.file).catch(error =>
+                this.plugin.logger.error('❌ Erreur rafraîchissement du board:', error));
+        });
+        this.plugin.registerEvent(ref);
+
+        try {
+            await this.plugin.services.file.changeLayout(this.file, this.layoutName, this.mapping);
+            this.close();
+        } catch (error) {
+            this.app.metadataCache.offref(ref);
+            this.plugin.logger.error('Erreur changement de layout', error);
+            new Notice('❌ Erreur lors du changement de layout');
+        }
+    }
+}
@@ -0,0 +1,105 @@
+// ====================================================================
+// 📁 src/components/DuplicateSectionsModal.ts - Résolution des sections en double
+// ====================================================================
+
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { DuplicateSection } from '../services/FileService';
+import { AgileBoardError } from '../errors/AgileBoardError';
+
+/**
+ * Modal de résolution d'une section présente plusieurs fois dans une note
+ *
+ * Trois résolutions :
+ * - fusionner toutes les occurrences dans la première
+ * - renommer une occurrence
+ * - choisir l'occurrence affichée et éditée par le board (pour la session)
+ */
+export class DuplicateSectionsModal extends Modal {
+    private static readonly PREVIEW_LINES = 3;
+
+    constructor(
+        app: App,
+        private plugin: AgileBoardPlugin,
+        private file: TFile,
+        private duplicate: DuplicateSection,
+        private onResolved: () => void
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-duplicates-modal');
+        titleEl.setText(`⚠️ Section "${this.duplicate.name}" en double`);
+
+        contentEl.createEl('p', {
+            text: `La note contient ${this.duplicate.occurrences.length} sections "${this.duplicate.name}". ` +
+                'Le board n\'en affiche qu\'une : fusionnez-les, renommez-en une ou choisissez celle à éditer.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('Fusionner')
+            .setDesc('Regroupe le contenu de toutes les occurrences dans la première et supprime les autres.')
+            .addButton(button => button
+                .setButtonText('🔗 Fusionner')
+                .setCta()
+                .onClick(() => this.resolve(() =>
+                    this.plugin.services.file.mergeDuplicateSections(this.file, this.duplicate.name))));
+
+        this.duplicate.occurrences.forEach((occurrence, index) => this.renderOccurrence(contentEl, index));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderOccurrence(containerEl: HTMLElement, index: number): void {
+        const occurrence = this.duplicate.occurrences[index];
+        const occurrenceEl = containerEl.createDiv('agile-board-duplicate-occurrence');
+        occurrenceEl.toggleClass('is-selected', index === this.duplicate.selected);
+
+        const preview = occurrence.content
+            ? occurrence.content.split('\n').slice(0, DuplicateSectionsModal.PREVIEW_LINES).join('\n')
+            : '(section vide)';
+        let newName = '';
+
+        new Setting(occurrenceEl)
+            .setName(`${index + 1}. ${occurrence.name} · ligne ${occurrence.startLine + 1}`)
+            .setDesc(index === this.duplicate.selected ? '✏️ Éditée par le board' : '')
+            .addButton(button => button
+                .setButtonText('Éditer celle-ci')
+                .setDisabled(index === this.duplicate.selected)
+                .onClick(() => this.resolve(async () =>
+                    this.plugin.services.file.chooseDuplicateSection(this.file, this.duplicate.name, index))))
+            .addText(text => text
+                .setPlaceholder('Nouveau nom')
+                .onChange(value => newName = value))
+            .addButton(button => button
+                .setButtonText('Renommer')
+                .onClick(() => this.resolve(() =>
+                    this.plugin.services.file.renameDuplicateSection(this.file, this.duplicate.name, index, newName))));
+
+        occurrenceEl.createEl('pre', { text: preview, cls: 'agile-board-duplicate-preview' });
+    }
+
+    /**
+     * Applique une résolution puis redessine le board
+     */
+    private async resolve(action: () => Promise<void>): Promise<void> {
+        try {
+            await action();
+            this.close();
+            this.onResolved();
+        } catch (error) {
+            this.plugin.logger.error('Erreur résolution de section en double', error);
+            const code = error instanceof AgileBoardError ? error.code : undefined;
+            new Notice(code === 'VALIDATION_ERROR'
+                ? '❌ Nom vide ou déjà utilisé dans la note'
+                : code === 'NOTE_CHANGED'
+                    ? '⚠️ La note a changé entre-temps : rouvrez la résolution des doublons'
+                    : '❌ Erreur lors de la résolution de la section en double');
+        }
+    }
+}
@@ -0,0 +1,355 @@
+// ====================================================================
+// 📁 src/components/LayoutDesignerModal.ts - Designer visuel de layouts
+// ====================================================================
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { BlockIssue, BoardLayout, CustomLayoutDefinition } from '../types';
+import { CustomLayoutService } from '../services/CustomLayoutService';
+import { LayoutService } from '../services/LayoutService';
+import { SectionMatcher } from '../utils/matcher';
+
+type InteractionMode = 'move' | 'resize';
+
+/**
+ * Saisie du designer à convertir en définition de layout
+ */
+interface LayoutDraft {
+    displayName: string;
+    description: string;
+    category: string;
+    blocks: BoardLayout[];
+}
+
+/**
+ * Modal de conception de layouts par glisser-déposer
+ *
+ * Les blocs sont placés sur la grille de 24 colonnes, déplacés en les
+ * faisant glisser et redimensionnés par leur poignée. Les chevauchements et
+ * débordements sont signalés en direct avec les règles du LayoutService.
+ * Le résultat est enregistré comme layout personnalisé.
+ */
+export class LayoutDesignerModal extends Modal {
+    private static readonly COLUMNS = 24;
+    private static readonly MAX_ROWS = 100;
+    private static readonly ROW_HEIGHT = 16;
+    private static readonly MIN_VISIBLE_ROWS = 24;
+
+    private blocks: BoardLayout[] = [];
+    private displayName = '';
+    private description = '';
+    private category = 'custom';
+    private selectedIndex: number | null = null;
+
+    private canvasEl!: HTMLElement;
+    private statusEl!: HTMLElement;
+    private inspectorEl!: HTMLElement;
+    private blockEls: HTMLElement[] = [];
+    private stopInteraction: (() => void) | null = null;
+
+    constructor(app: App, private plugin: AgileBoardPlugin) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-designer-modal');
+        titleEl.setText('🎨 Designer de layout');
+
+        this.createMetadataFields(contentEl);
+        this.createToolbar(contentEl);
+
+        this.canvasEl = contentEl.createDiv('agile-board-designer-canvas');
+        this.canvasEl.style.backgroundSize =
+            `calc(100% / ${LayoutDesignerModal.COLUMNS}) ${LayoutDesignerModal.ROW_HEIGHT}px`;
+        this.canvasEl.addEventListener('pointerdown', () => this.select(null));
+
+        this.inspectorEl = contentEl.createDiv('agile-board-designer-inspector');
+        this.createFooter(contentEl);
+
+        this.renderBlocks();
+    }
+
+    onClose(): void {
+        this.stopInteraction?.();
+        this.contentEl.empty();
+    }
+
+    // ===================================================================
+    // CONSTRUCTION DE L'INTERFACE
+    // ===================================================================
+
+    private createMetadataFields(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Nom d\'affichage')
+            .addText(text => text
+                .setPlaceholder('Ma rétrospective')
+                .setValue(this.displayName)
+                .onChange(value => this.displayName = value));
+
+        new Setting(containerEl)
+            .setName('Description')
+            .addTextArea(text => text
+                .setValue(this.description)
+                .onChange(value => this.description = value));
+
+        new Setting(containerEl)
+            .setName('Catégorie')
+            .addText(text => text
+                .setPlaceholder('custom')
+                .setValue(this.category)
+                .onChange(value => this.category = value));
+    }
+
+    private createToolbar(containerEl: HTMLElement): void {
+        const toolbar = containerEl.createDiv('agile-board-designer-toolbar');
+
+        const addButton = toolbar.createEl('button', { text: '➕ Ajouter un bloc' });
+        addButton.onclick = () => this.addBlock();
+
+        this.statusEl = toolbar.createSpan('agile-board-designer-status');
+    }
+
+    private createFooter(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Annuler')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('💾 Enregistrer')
+                .setCta()
+                .onClick(() => this.save()));
+    }
+
+    // ===================================================================
+    // RENDU DES BLOCS
+    // ===================================================================
+
+    /**
+     * Recrée les éléments des blocs (après ajout ou suppression)
+     */
+    private renderBlocks(): void {
+        this.canvasEl.empty();
+        this.blockEls = this.blocks.map((block, index) => {
+            const blockEl = this.canvasEl.createDiv('agile-board-designer-block');
+            blockEl.createDiv({ cls: 'agile-board-designer-block-title' });
+            blockEl.addEventListener('pointerdown', event => this.startInteraction(event, index, 'move'));
+
+            const handle = blockEl.createDiv('agile-board-designer-resize');
+            handle.addEventListener('pointerdown', event => this.startInteraction(event, index, 'resize'));
+            return blockEl;
+        });
+
+        this.refresh();
+        this.renderInspector();
+    }
+
+    /**
+     * Met à jour positions, états de validation et statut sans recréer le DOM
+     */
+    private refresh(): void {
+        const { COLUMNS, ROW_HEIGHT, MIN_VISIBLE_ROWS, MAX_ROWS } = LayoutDesignerModal;
+        const issues = this.plugin.services.layout.inspectBlocks(this.blocks);
+
+        const bottom = Math.max(0, ...this.blocks.map(block => block.y + block.h));
+        const visibleRows = Math.min(Math.max(bottom + 6, MIN_VISIBLE_ROWS), MAX_ROWS + 6);
+        this.canvasEl.style.height = `${visibleRows * ROW_HEIGHT}px`;
+
+        this.blocks.forEach((block, index) => {
+            const blockEl = this.blockEls[index];
+            const blockIssues = issues.get(index) || [];
+
+            blockEl.style.left = `${(block.x / COLUMNS) * 100}%`;
+            blockEl.style.width = `${(block.w / COLUMNS) * 100}%`;
+            blockEl.style.top = `${block.y * ROW_HEIGHT}px`;
+            blockEl.style.height = `${block.h * ROW_HEIGHT}px`;
+            blockEl.toggleClass('is-selected', index === this.selectedIndex);
+            blockEl.toggleClass('is-overlapping', blockIssues.includes('overlap'));
+            blockEl.toggleClass('is-out-of-bounds', blockIssues.includes('bounds'));
+
+            const titleEl = blockEl.querySelector('.agile-board-designer-block-title') as HTMLElement;
+            titleEl.setText(`${block.title} (${block.x},${block.y} ${block.w}×${block.h})`);
+        });
+
+        const count = (issue: BlockIssue) =>
+            Array.from(issues.values()).filter(blockIssues => blockIssues.includes(issue)).length;
+        this.statusEl.setText(
+            `${this.blocks.length} bloc(s) · ${count('overlap')} en chevauchement · ${count('bounds')} hors limites`
+        );
+        this.statusEl.toggleClass('mod-warning', issues.size > 0);
+    }
+
+    /**
+     * Panneau d'édition du bloc sélectionné
+     */
+    private renderInspector(): void {
+        this.inspectorEl.empty();
+        if (this.selectedIndex === null) {
+            this.inspectorEl.createEl('p', {
+                text: 'Sélectionnez un bloc pour le renommer ou le supprimer.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        const block = this.blocks[this.selectedIndex];
+        new Setting(this.inspectorEl)
+            .setName('Titre du bloc')
+            .setDesc('Titre de la section correspondante dans la note')
+            .addText(text => text
+                .setValue(block.title)
+                .onChange(value => {
+                    block.title = value;
+                    this.refresh();
+                }))
+            .addButton(button => button
+                .setButtonText('🗑️ Supprimer')
+                .setWarning()
+                .onClick(() => this.removeBlock(this.selectedIndex!)));
+    }
+
+    // ===================================================================
+    // INTERACTIONS
+    // ===================================================================
+
+    private select(index: number | null): void {
+        if (index === this.selectedIndex) return;
+        this.selectedIndex = index;
+        this.refresh();
+        this.renderInspector();
+    }
+
+    private addBlock(): void {
+        const bottom = Math.max(0, ...this.blocks.map(block => block.y + block.h));
+        const y = bottom + 6 <= LayoutDesignerModal.MAX_ROWS ? bottom : 0;
+
+        this.blocks.push({ title: `Bloc ${this.blocks.length + 1}`, x: 0, y, w: 6, h: 6 });
+        this.selectedIndex = this.blocks.length - 1;
+        this.renderBlocks();
+    }
+
+    private removeBlock(index: number): void {
+        this.blocks.splice(index, 1);
+        this.selectedIndex = null;
+        this.renderBlocks();
+    }
+
+    /**
+     * Démarre un déplacement ou un redimensionnement au pointeur
+     *
+     * Les déplacements sont arrondis à la cellule de grille la plus proche.
+     * Les positions négatives sont bloquées ; les débordements à droite ou en
+     * bas restent possibles pour être signalés comme erreurs.
+     */
+    private startInteraction(event: PointerEvent, index: number, mode: InteractionMode): void {
+        event.preventDefault();
+        event.stopPropagation();
+        this.stopInteraction?.();
+        this.select(index);
+
+        const block = this.blocks[index];
+        const origin = { ...block };
+        const startX = event.clientX;
+        const startY = event.clientY;
+        const columnWidth = this.canvasEl.clientWidth / LayoutDesignerModal.COLUMNS;
+
+        const onMove = (moveEvent: PointerEvent) => {
+            const dx = Math.round((moveEvent.clientX - startX) / columnWidth);
+            const dy = Math.round((moveEvent.clientY - startY) / LayoutDesignerModal.ROW_HEIGHT);
+
+            if (mode === 'move') {
+                block.x = Math.max(0, origin.x + dx);
+                block.y = Math.max(0, origin.y + dy);
+            } else {
+                block.w = Math.max(1, origin.w + dx);
+                block.h = Math.max(1, origin.h + dy);
+            }
+            this.refresh();
+        };
+
+        const onUp = () => this.stopInteraction?.();
+
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+        this.stopInteraction = () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            this.stopInteraction = null;
+        };
+    }
+
+    // ===================================================================
+    // ENREGISTREMENT
+    // ===================================================================
+
+    /**
+     * Convertit la saisie du designer en définition de layout
+     *
+     * Vérifie le nom d'affichage, les titres des blocs (non vides et
+     * distincts au sens de SectionMatcher), les chevauchements et
+     * débordements (LayoutService.inspectBlocks) et que le nom du
+     * layout est libre.
+     *
+     * @returns La définition, ou le message d'erreur à afficher
+     */
+    static toDefinition(
+        draft: LayoutDraft,
+        layoutService: LayoutService
+    ): { definition?: CustomLayoutDefinition; error?: string } {
+        const displayName = draft.displayName.trim();
+        if (!displayName) {
+            return { error: '❌ Le nom d\'affichage est requis' };
+        }
+
+        if (draft.blocks.length === 0) {
+            return { error: '❌ Ajoutez au moins un bloc' };
+        }
+
+        const titles = draft.blocks.map(block => block.title.trim());
+        if (titles.some(title => !title) || new Set(titles.map(title => SectionMatcher.key(title))).size !== titles.length) {
+            return { error: '❌ Chaque bloc doit avoir un titre unique' };
+        }
+
+        if (layoutService.inspectBlocks(draft.blocks).size > 0) {
+            return { error: '❌ Corrigez les blocs en chevauchement ou hors limites' };
+        }
+
+        const name = CustomLayoutService.toLayoutName(displayName);
+        if (layoutService.getModel(name)) {
+            return { error: `❌ Un layout "${name}" existe déjà` };
+        }
+
+        return {
+            definition: {
+                name,
+                displayName,
+                description: draft.description.trim() || undefined,
+                category: draft.category.trim() || 'custom',
+                blocks: draft.blocks.map((block, index) => ({ ...block, title: titles[index] }))
+            }
+        };
+    }
+
+    private async save(): Promise<void> {
+        const { definition, error } = LayoutDesignerModal.toDefinition({
+            displayName: this.displayName,
+            description: this.description,
+            category: this.category,
+            blocks: this.blocks
+        }, this.plugin.services.layout);
+        if (!definition) {
+            new Notice(error!);
+            return;
+        }
+
+        const displayName = definition.displayName;
+        try {
+            await this.plugin.services.customLayouts.saveLayout(definition);
+            new Notice(`✅ Layout "${displayName}" enregistré`, 3000);
+            this.close();
+        } catch (error) {
+            this.plugin.logger.error('Erreur enregistrement du layout', error);
+            new Notice('❌ Erreur lors de l\'enregistrement du layout');
+        }
+    }
+}
@@ -0,0 +1,260 @@
+// ====================================================================
+// 📁 src/components/LayoutPickerModal.ts - Création d'un board
+// ====================================================================
+
+import { App, Modal, Notice, Setting, prepareFuzzySearch } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { LayoutInfo } from '../types';
+
+interface PickerEntry {
+    info: LayoutInfo;
+    score: number;
+}
+
+/**
+ * Groupe de layouts affiché dans la liste (catégorie ou mis en avant)
+ */
+interface PickerGroup {
+    name: string;
+    layouts: LayoutInfo[];
+}
+
+/**
+ * Modal "Nouveau board" : choix du layout puis du nom et du dossier
+ *
+ * Remplace les commandes "Créer …" par layout. Les layouts sont groupés
+ * par catégorie, les layouts mis en avant en tête ; la recherche floue
+ * porte sur le nom, la description et les sections.
+ */
+export class LayoutPickerModal extends Modal {
+    private static readonly FEATURED_GROUP = '⭐ Mis en avant';
+
+    private layouts: LayoutInfo[] = [];
+    private visible: LayoutInfo[] = [];
+    private selected: LayoutInfo | null = null;
+    private fileName = '';
+    private folder: string;
+
+    private listEl!: HTMLElement;
+    private previewEl!: HTMLElement;
+    private itemEls = new Map<string, HTMLElement>();
+
+    constructor(app: App, private plugin: AgileBoardPlugin) {
+        super(app);
+        this.folder = app.workspace.getActiveFile()?.parent?.path ?? '';
+        if (this.folder === '/') this.folder = '';
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-picker-modal');
+        titleEl.setText('✨ Nouveau board');
+
+        this.layouts = this.plugin.services.layout.getAllModelsInfo();
+
+        const searchEl = contentEl.createEl('input', {
+            type: 'search',
+            placeholder: 'Rechercher un layout (nom, description, sections)…',
+            cls: 'agile-board-picker-search'
+        });
+        searchEl.addEventListener('input', () => this.filter(searchEl.value));
+        searchEl.addEventListener('keydown', event => this.onKeyDown(event));
+
+        const body = contentEl.createDiv('agile-board-picker-body');
+        this.listEl = body.createDiv('agile-board-picker-list');
+        this.previewEl = body.createDiv('agile-board-picker-preview');
+
+        this.filter('');
+        window.setTimeout(() => searchEl.focus(), 0);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    // ===================================================================
+    // RECHERCHE ET LISTE
+    // ===================================================================
+
+    /**
+     * Filtre les layouts puis réaffiche la liste
+     */
+    private filter(query: string): void {
+        this.renderList(LayoutPickerModal.arrange(this.layouts, query));
+    }
+
+    /**
+     * Filtre les layouts par recherche floue et les groupe pour la liste
+     *
+     * Sans recherche, les layouts sont groupés par catégorie et triés par
+     * nom ; avec une recherche, les groupes sont conservés mais triés par
+     * pertinence. Les layouts mis en avant forment toujours le premier groupe.
+     */
+    static arrange(layouts: LayoutInfo[], query: string): PickerGroup[] {
+        const search = query.trim() ? prepareFuzzySearch(query.trim()) : null;
+
+        const entries: PickerEntry[] = [];
+        for (const info of layouts) {
+            if (!search) {
+                entries.push({ info, score: 0 });
+                continue;
+            }
+
+            const scores = [info.displayName, info.name, info.description, info.sections.join(' ')]
+                .map(text => search(text)?.score)
+                .filter((score): score is number => score !== undefined);
+            if (scores.length > 0) {
+                entries.push({ info, score: Math.max(...scores) });
+            }
+        }
+
+        const byScore = !!search;
+        const groups = new Map<string, PickerEntry[]>();
+        const groupOf = (info: LayoutInfo) =>
+            info.featured ? LayoutPickerModal.FEATURED_GROUP : LayoutPickerModal.formatCategory(info.category);
+
+        entries
+            .sort((a, b) => byScore
+                ? b.score - a.score
+                : a.info.displayName.localeCompare(b.info.displayName))
+            .forEach(entry => {
+                const group = groupOf(entry.info);
+                groups.set(group, [...(groups.get(group) || []), entry]);
+            });
+
+        const groupNames = Array.from(groups.keys()).sort((a, b) => {
+            if (a === LayoutPickerModal.FEATURED_GROUP) return -1;
+            if (b === LayoutPickerModal.FEATURED_GROUP) return 1;
+            return byScore
+                ? groups.get(b)![0].score - groups.get(a)![0].score
+                : a.localeCompare(b);
+        });
+
+        return groupNames.map(name => ({ name, layouts: groups.get(name)!.map(entry => entry.info) }));
+    }
+
+    /**
+     * Layout sélectionné après un déplacement au clavier (bloqué aux extrémités)
+     *
+     * @param step - 1 vers le bas, -1 vers le haut
+     */
+    static step(visible: LayoutInfo[], selected: LayoutInfo | null, step: number): LayoutInfo | undefined {
+        const index = selected ? visible.indexOf(selected) : -1;
+        return visible[Math.min(Math.max(index + step, 0), visible.length - 1)];
+    }
+
+    private renderList(groups: PickerGroup[]): void {
+        this.listEl.empty();
+        this.itemEls.clear();
+
+        this.visible = [];
+        for (const group of groups) {
+            this.listEl.createDiv({ text: group.name, cls: 'agile-board-picker-group' });
+            for (const info of group.layouts) {
+                this.visible.push(info);
+                const item = this.listEl.createDiv('agile-board-picker-item');
+                item.createDiv({ text: info.displayName, cls: 'agile-board-picker-item-name' });
+                item.createDiv({ text: `${info.blockCount} sections`, cls: 'agile-board-picker-item-meta' });
+                item.addEventListener('click', () => this.select(info));
+                item.addEventListener('dblclick', () => this.create());
+                this.itemEls.set(info.name, item);
+            }
+        }
+
+        if (this.visible.length === 0) {
+            this.listEl.createDiv({ text: 'Aucun layout ne correspond', cls: 'agile-board-picker-empty' });
+        }
+
+        const keepSelection = this.selected && this.visible.includes(this.selected);
+        this.select(keepSelection ? this.selected : this.visible[0] ?? null);
+    }
+
+    private static formatCategory(category: string): string {
+        return category ? category.charAt(0).toUpperCase() + category.slice(1) : 'Autres';
+    }
+
+    // ===================================================================
+    // SÉLECTION ET APERÇU
+    // ===================================================================
+
+    private select(info: LayoutInfo | null): void {
+        this.selected = info;
+        this.itemEls.forEach((el, name) => el.toggleClass('is-selected', name === info?.name));
+        if (info) {
+            this.itemEls.get(info.name)?.scrollIntoView({ block: 'nearest' });
+        }
+        this.renderPreview();
+    }
+
+    private onKeyDown(event: KeyboardEvent): void {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            const next = LayoutPickerModal.step(this.visible, this.selected, event.key === 'ArrowDown' ? 1 : -1);
+            if (next) this.select(next);
+        } else if (event.key === 'Enter') {
+            event.preventDefault();
+            this.create();
+        }
+    }
+
+    private renderPreview(): void {
+        this.previewEl.empty();
+        const info = this.selected;
+        if (!info) return;
+
+        if (this.plugin.settings.ui?.showThumbnails !== false && info.thumbnail) {
+            this.previewEl.createDiv('agile-board-picker-thumbnail').innerHTML = info.thumbnail;
+        }
+
+        this.previewEl.createEl('h3', { text: info.displayName });
+        this.previewEl.createEl('p', { text: info.description, cls: 'setting-item-description' });
+
+        const sections = this.previewEl.createEl('ul', { cls: 'agile-board-picker-sections' });
+        info.sections.forEach(section => sections.createEl('li', { text: section }));
+
+        new Setting(this.previewEl)
+            .setName('Nom du fichier')
+            .addText(text => text
+                .setPlaceholder(info.displayName)
+                .setValue(this.fileName)
+                .onChange(value => this.fileName = value));
+
+        new Setting(this.previewEl)
+            .setName('Dossier')
+            .addText(text => text
+                .setPlaceholder('Racine du vault')
+                .setValue(this.folder)
+                .onChange(value => this.folder = value));
+
+        new Setting(this.previewEl)
+            .addButton(button => button
+                .setButtonText('✨ Créer le board')
+                .setCta()
+                .onClick(() => this.create()));
+    }
+
+    // ===================================================================
+    // CRÉATION
+    // ===================================================================
+
+    private async create(): Promise<void> {
+        if (!this.selected) {
+            new Notice('❌ Sélectionnez un layout');
+            return;
+        }
+
+        const folder = this.folder.trim().replace(/^\/+|\/+$/g, '');
+        try {
+            await this.plugin.services.file.createNoteWithLayout({
+                layoutName: this.selected.name,
+                customFileName: this.fileName.trim() || undefined,
+                folder: folder || undefined,
+                autoOpen: true
+            });
+            this.close();
+        } catch (error) {
+            this.plugin.logger.error('Erreur création note', error);
+            new Notice(`❌ Création impossible : ${(error as Error).message}`);
+        }
+    }
+}
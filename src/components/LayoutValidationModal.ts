@@ -0,0 +1,93 @@
+// ====================================================================
+// 📁 src/components/LayoutValidationModal.ts - Rapport de validation des layouts
+// ====================================================================
+
+import { App, Modal } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { LayoutValidationIssue, LayoutValidationReport } from '../types';
+
+/**
+ * Modal listant les rapports de validation du dernier chargement
+ *
+ * Les layouts rejetés apparaissent en premier avec leurs erreurs bloc par
+ * bloc, pour que l'auteur d'un layout comprenne pourquoi il est absent.
+ */
+export class LayoutValidationModal extends Modal {
+    private showValid = false;
+    private listEl!: HTMLElement;
+
+    constructor(app: App, private plugin: AgileBoardPlugin) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-validation-modal');
+        titleEl.setText('📐 Validation des layouts');
+
+        const reports = this.plugin.services.layout.getValidationReports();
+        const invalid = reports.filter(report => !report.valid).length;
+        const withWarnings = reports.filter(report => report.warnings.length > 0).length;
+
+        contentEl.createEl('p', {
+            text: `${reports.length} layout(s) analysé(s) · ${invalid} rejeté(s) · ${withWarnings} avec avertissements`,
+            cls: 'setting-item-description'
+        });
+
+        const toggle = contentEl.createEl('label', { cls: 'agile-board-validation-toggle' });
+        const checkbox = toggle.createEl('input', { type: 'checkbox' });
+        toggle.appendText(' Afficher aussi les layouts valides sans avertissement');
+        checkbox.addEventListener('change', () => {
+            this.showValid = checkbox.checked;
+            this.renderReports(reports);
+        });
+
+        this.listEl = contentEl.createDiv('agile-board-validation-list');
+        this.renderReports(reports);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderReports(reports: LayoutValidationReport[]): void {
+        this.listEl.empty();
+
+        const visible = reports.filter(report =>
+            this.showValid || !report.valid || report.warnings.length > 0);
+
+        if (visible.length === 0) {
+            this.listEl.createEl('p', { text: '✅ Tous les layouts sont valides' });
+            return;
+        }
+
+        visible.forEach(report => this.renderReport(report));
+    }
+
+    private renderReport(report: LayoutValidationReport): void {
+        const reportEl = this.listEl.createDiv('agile-board-validation-report');
+        reportEl.toggleClass('is-invalid', !report.valid);
+
+        const status = !report.valid ? '❌' : report.warnings.length > 0 ? '⚠️' : '✅';
+        const displayName = this.plugin.services.layout.getLayoutDisplayName(report.name);
+        reportEl.createEl('h4', {
+            text: `${status} ${displayName}${displayName !== report.name ? ` (${report.name})` : ''}`
+        });
+
+        if (report.source) {
+            reportEl.createEl('div', { text: report.source, cls: 'setting-item-description' });
+        }
+
+        const issues = [...report.errors, ...report.warnings];
+        if (issues.length === 0) return;
+
+        const list = reportEl.createEl('ul');
+        issues.forEach(issue => this.renderIssue(list, issue));
+    }
+
+    private renderIssue(list: HTMLElement, issue: LayoutValidationIssue): void {
+        const item = list.createEl('li', { cls: `agile-board-validation-${issue.severity}` });
+        item.createSpan({ text: issue.severity === 'error' ? 'Erreur' : 'Avertissement', cls: 'agile-board-validation-badge' });
+        item.appendText(` ${issue.message}`);
+    }
+}
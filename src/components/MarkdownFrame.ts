@@ -10,7 +10,7 @@
  */
 
 import { App, TFile, MarkdownRenderer, Component } from 'obsidian';
-import { FileSection } from '../types';
+import { FileSection, FrameSaveState } from '../types';
 import { LoggerService } from '../services/LoggerService';
 
 export class MarkdownFrame {
@@ -20,6 +20,7 @@ export class MarkdownFrame {
   // ===========================================================================
   
   private isEditing = false;
+  private readOnly = false;
   private previewContainer!: HTMLElement;
   private editorContainer!: HTMLElement;
   private textArea!: HTMLTextAreaElement;
@@ -365,6 +366,8 @@ export class MarkdownFrame {
    */
   private debouncedSave(): void {
     try {
+      if (this.readOnly) return;
+
       clearTimeout(this.changeTimeout);
       this.changeTimeout = setTimeout(() => {
         try {
@@ -681,6 +684,7 @@ export class MarkdownFrame {
           clearTimeout(this.changeTimeout);
           this.changeTimeout = setTimeout(() => {
             try {
+              if (this.readOnly) return;
               this.onChange(this.content);
             } catch (error) {
               this.logger.error('❌ Erreur callback onChange dans input', error);
@@ -726,6 +730,11 @@ export class MarkdownFrame {
    */
   private enterEditMode(): void {
     try {
+      if (this.readOnly) {
+        this.logger.debug('🔒 Bloc en lecture seule - édition ignorée');
+        return;
+      }
+
       if (this.isInErrorState) {
         this.logger.warn('⚠️ Impossible de passer en mode édition - état d\'erreur');
         return;
@@ -828,6 +837,23 @@ export class MarkdownFrame {
   // API PUBLIQUE DU COMPOSANT
   // ===========================================================================
 
+  /**
+   * Active ou désactive la lecture seule (option readOnly du bloc)
+   * Le rendu reste interactif pour les plugins, mais aucune modification
+   * n'est enregistrée depuis le board.
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    if (readOnly) {
+      // Une sauvegarde déjà programmée ne doit plus partir
+      clearTimeout(this.changeTimeout);
+      this.changeTimeout = null;
+    }
+    if (readOnly && this.isEditing) {
+      this.forcePreviewMode();
+    }
+  }
+
   /**
    * Met à jour le contenu de la section
    */
@@ -864,6 +890,22 @@ export class MarkdownFrame {
     }
   }
 
+  /**
+   * Section affichée (emplacement et contenu au dernier affichage)
+   */
+  getSection(): FileSection {
+    return this.section;
+  }
+
+  /**
+   * Affiche l'état de la sauvegarde de la section (voir styles.css)
+   */
+  setSaveState(state: FrameSaveState): void {
+    this.container.toggleClass('is-saving', state === 'saving');
+    this.container.toggleClass('has-save-error', state === 'failed');
+    this.container.setAttr('title', state === 'failed' ? '❌ Dernière modification non enregistrée' : null);
+  }
+
   /**
    * Obtient le contenu actuel de la section
    */
@@ -0,0 +1,65 @@
+// ====================================================================
+// 📁 src/components/MigrationReportModal.ts - Rapport de migration des notes
+// ====================================================================
+
+import { App, Modal } from 'obsidian';
+import { NoteMigrationReport } from '../types';
+
+/**
+ * Modal listant, note par note, les changements appliqués par une migration
+ *
+ * Chaque note est cliquable pour vérifier le résultat ; les notes en échec
+ * apparaissent en premier avec leur erreur.
+ */
+export class MigrationReportModal extends Modal {
+    constructor(app: App, private reports: NoteMigrationReport[]) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-migration-modal');
+        titleEl.setText('🔄 Migration des notes board');
+
+        const failed = this.reports.filter(report => report.error).length;
+        contentEl.createEl('p', {
+            text: `${this.reports.length} note(s) migrée(s)${failed > 0 ? ` · ${failed} en échec` : ''}`,
+            cls: 'setting-item-description'
+        });
+
+        const sorted = [...this.reports]
+            .sort((a, b) => Number(!a.error) - Number(!b.error) || a.path.localeCompare(b.path));
+        sorted.forEach(report => this.renderReport(contentEl, report));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderReport(containerEl: HTMLElement, report: NoteMigrationReport): void {
+        const reportEl = containerEl.createDiv('agile-board-migration-report');
+        reportEl.toggleClass('is-invalid', !!report.error);
+
+        const title = reportEl.createEl('h4');
+        const link = title.createEl('a', { text: report.path, cls: 'internal-link' });
+        link.addEventListener('click', () => {
+            this.app.workspace.openLinkText(report.path, '', false);
+            this.close();
+        });
+        title.appendText(` · v${report.fromVersion} → v${report.toVersion}`);
+
+        const list = reportEl.createEl('ul');
+        if (report.error) {
+            list.createEl('li', { text: `❌ ${report.error}`, cls: 'agile-board-migration-error' });
+            return;
+        }
+
+        report.notes.forEach(note => list.createEl('li', { text: `ℹ️ ${note}` }));
+        report.renamed.forEach(({ from, to }) => list.createEl('li', { text: `✏️ "${from}" renommée en "${to}"` }));
+        report.added.forEach(section => list.createEl('li', { text: `➕ Section "${section}" ajoutée` }));
+
+        if (report.renamed.length === 0 && report.added.length === 0) {
+            list.createEl('li', { text: '✅ Aucune section à modifier, version mise à jour' });
+        }
+    }
+}
@@ -0,0 +1,78 @@
+// ====================================================================
+// 📁 src/components/NormalizeNoteModal.ts - Normalisation d'une note board
+// ====================================================================
+
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type AgileBoardPlugin from '../main';
+import { NoteNormalization } from '../types';
+import { DiffUtils } from '../utils/diff';
+import { AgileBoardError } from '../errors/AgileBoardError';
+
+/**
+ * Aperçu de la normalisation d'une note avant écriture
+ *
+ * Résume les changements (sections créées, ordre rétabli) et affiche les
+ * différences ligne à ligne ; rien n'est écrit avant confirmation.
+ */
+export class NormalizeNoteModal extends Modal {
+    constructor(
+        app: App,
+        private plugin: AgileBoardPlugin,
+        private file: TFile,
+        private normalization: NoteNormalization,
+        private onApplied: () => void
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-normalize-modal');
+        titleEl.setText(`🧭 Normaliser "${this.file.basename}"`);
+
+        const list = contentEl.createEl('ul');
+        if (this.normalization.reordered) {
+            list.createEl('li', { text: '↕️ Sections remises dans l\'ordre du layout' });
+        }
+        this.normalization.added.forEach(section => list.createEl('li', { text: `➕ Section "${section}" ajoutée` }));
+
+        const previewEl = contentEl.createDiv('agile-board-diff');
+        const hunks = DiffUtils.hunks(DiffUtils.diffLines(this.normalization.before, this.normalization.after));
+        hunks.forEach((hunk, index) => {
+            if (index > 0) {
+                previewEl.createDiv({ text: '⋯', cls: 'agile-board-diff-separator' });
+            }
+            hunk.forEach(line => {
+                const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+                previewEl.createDiv({ text: prefix + line.text, cls: `agile-board-diff-line is-${line.type}` });
+            });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Annuler')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('🧭 Normaliser')
+                .setCta()
+                .onClick(() => this.apply()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private async apply(): Promise<void> {
+        try {
+            await this.plugin.services.file.applyNormalization(this.file, this.normalization);
+            new Notice('✅ Note normalisée');
+            this.close();
+            this.onApplied();
+        } catch (error) {
+            this.plugin.logger.error('Erreur normalisation de la note', error);
+            new Notice(error instanceof AgileBoardError && error.code === 'NOTE_CHANGED'
+                ? '⚠️ La note a changé depuis l\'aperçu : relancez la commande'
+                : '❌ Erreur lors de la normalisation de la note');
+        }
+    }
+}
@@ -0,0 +1,94 @@
+// ====================================================================
+// 📁 src/components/SectionConflictModal.ts - Conflit d'écriture d'une section
+// ====================================================================
+
+import { App, Modal, Setting } from 'obsidian';
+import { ConflictUtils } from '../utils/conflict';
+
+/**
+ * Versions d'une section en conflit
+ */
+export interface SectionConflict {
+    sectionName: string;
+    /** Contenu au dernier affichage dans le board */
+    base: string;
+    /** Contenu édité dans le board */
+    mine: string;
+    /** Contenu actuel dans le fichier */
+    theirs: string;
+}
+
+/**
+ * Modal affichée quand une section a été modifiée ailleurs pendant son
+ * édition dans le board
+ *
+ * Résolutions : garder la version du board, garder celle du fichier, ou
+ * écrire une fusion proposée (voir ConflictUtils.mergeSection) et modifiable.
+ * Fermer la modal sans choisir revient à garder la version du fichier.
+ */
+export class SectionConflictModal extends Modal {
+    private resolved = false;
+
+    /**
+     * @param onResolve - Contenu à écrire, ou null pour garder la version du fichier
+     */
+    constructor(
+        app: App,
+        private conflict: SectionConflict,
+        private onResolve: (content: string | null) => void
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl, titleEl } = this;
+        modalEl.addClass('agile-board-conflict-modal');
+        titleEl.setText(`⚠️ Conflit sur la section "${this.conflict.sectionName}"`);
+
+        contentEl.createEl('p', {
+            text: 'Cette section a été modifiée ailleurs (autre panneau, synchronisation...) pendant son édition dans le board. Rien n\'a été écrit.',
+            cls: 'setting-item-description'
+        });
+
+        const versionsEl = contentEl.createDiv('agile-board-conflict-versions');
+        this.renderVersion(versionsEl, '📋 Ma version (board)', this.conflict.mine);
+        this.renderVersion(versionsEl, '📄 Version du fichier', this.conflict.theirs);
+
+        contentEl.createEl('h4', { text: '🔗 Fusion' });
+        const mergeEl = contentEl.createEl('textarea', { cls: 'agile-board-conflict-merge' });
+        mergeEl.value = ConflictUtils.mergeSection(this.conflict.base, this.conflict.mine, this.conflict.theirs);
+        mergeEl.rows = 10;
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Garder la version du fichier')
+                .onClick(() => this.resolve(null)))
+            .addButton(button => button
+                .setButtonText('Garder ma version')
+                .onClick(() => this.resolve(this.conflict.mine)))
+            .addButton(button => button
+                .setButtonText('Écrire la fusion')
+                .setCta()
+                .onClick(() => this.resolve(mergeEl.value)));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (!this.resolved) {
+            this.resolved = true;
+            this.onResolve(null);
+        }
+    }
+
+    private renderVersion(containerEl: HTMLElement, title: string, content: string): void {
+        const versionEl = containerEl.createDiv('agile-board-conflict-version');
+        versionEl.createEl('h4', { text: title });
+        versionEl.createEl('pre', { text: content || '(section vide)' });
+    }
+
+    private resolve(content: string | null): void {
+        this.resolved = true;
+        this.onResolve(content);
+        this.close();
+    }
+}
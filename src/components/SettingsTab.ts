@@ -4,7 +4,9 @@
 
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import AgileBoardPlugin from '../main';
-import { LogLevel } from '../types';
+import { LayoutValidationModal } from './LayoutValidationModal';
+import { LogLevel, SectionMatchingOptions } from '../types';
+import { DEFAULT_SETTINGS } from '../utils/settings';
 
 /**
  * Onglet de configuration du plugin dans les paramètres d'Obsidian
@@ -12,11 +14,18 @@ import { LogLevel } from '../types';
 export class AgileBoardSettingsTab extends PluginSettingTab {
     plugin: AgileBoardPlugin;
 
+    /** Champ du dossier des layouts, appliqué seulement une fois saisi */
+    private layoutsFolderInput?: HTMLInputElement;
+
     constructor(app: App, plugin: AgileBoardPlugin) {
         super(app, plugin);
         this.plugin = plugin;
     }
 
+    hide(): void {
+        this.applyLayoutsFolder();
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
@@ -35,6 +44,19 @@ export class AgileBoardSettingsTab extends PluginSettingTab {
         this.createGeneralSection(containerEl);
     }
 
+    /**
+     * Enregistre le dossier des layouts saisi s'il a changé
+     * (le changement recharge les layouts personnalisés)
+     */
+    private applyLayoutsFolder(): void {
+        const folder = this.layoutsFolderInput?.value.trim();
+        if (folder === undefined || folder === this.plugin.settings.layoutsFolder) return;
+
+        this.plugin.settings.layoutsFolder = folder;
+        this.plugin.saveSettings().catch(error =>
+            this.plugin.logger.error('Erreur enregistrement du dossier de layouts', error));
+    }
+
     /**
      * Crée la section de configuration du debug
      */
@@ -264,10 +286,115 @@ export class AgileBoardSettingsTab extends PluginSettingTab {
                     this.plugin.logger.config('Auto-création sections modifiée', { enabled: value });
                 }));
 
-        // Layouts par défaut (exemple simple)
+        // Dossier des layouts personnalisés
+        new Setting(containerEl)
+            .setName('Dossier des layouts personnalisés')
+            .setDesc('Dossier du vault contenant des layouts au format JSON ou YAML (rechargés automatiquement)')
+            .addText(text => {
+                text
+                    .setPlaceholder('Agile Board/Layouts')
+                    .setValue(this.plugin.settings.layoutsFolder);
+
+                // Appliqué à la sortie du champ (ou à la fermeture des
+                // paramètres) : chaque frappe rechargerait les layouts d'un
+                // dossier intermédiaire
+                this.layoutsFolderInput = text.inputEl;
+                text.inputEl.addEventListener('blur', () => this.applyLayoutsFolder());
+            })
+            .addButton(button => button
+                .setButtonText('🔄 Recharger')
+                .onClick(async () => {
+                    const count = await this.plugin.services.customLayouts.loadAll();
+                    new Notice(`${count} layout(s) personnalisé(s) lu(s)`, 2000);
+                }));
+
+        // Rapport de validation (layouts rejetés et avertissements)
+        const reports = this.plugin.services.layout.getValidationReports();
+        const rejected = reports.filter(report => !report.valid).length;
+        new Setting(containerEl)
+            .setName('Validation des layouts')
+            .setDesc(rejected > 0
+                ? `❌ ${rejected} layout(s) rejeté(s) sur ${reports.length} — consultez le rapport pour en connaître la raison`
+                : `✅ ${reports.length} layout(s) valide(s)`)
+            .addButton(button => button
+                .setButtonText('📐 Voir le rapport')
+                .onClick(() => new LayoutValidationModal(this.app, this.plugin).open()));
+
+        // Langue des titres de sections
+        new Setting(containerEl)
+            .setName('Langue des titres de sections')
+            .setDesc('Titres utilisés pour créer les sections des layouts intégrés. Les titres des autres langues et les alias restent reconnus dans les notes existantes.')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Français (titres de référence)')
+                .addOption('en', 'English')
+                .setValue(this.plugin.settings.sectionLanguage || '')
+                .onChange(async (value) => {
+                    this.plugin.settings.sectionLanguage = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Reconnaissance des titres de sections (voir SectionMatcher)
+        const matching = { ...DEFAULT_SETTINGS.sectionMatching!, ...this.plugin.settings.sectionMatching };
+        const matchingToggles: Array<[keyof SectionMatchingOptions, string, string]> = [
+            ['ignoreCase', 'Ignorer la casse', '"à faire" correspond à "À faire"'],
+            ['ignoreAccents', 'Ignorer les accents', '"A faire" correspond à "À faire"'],
+            ['ignoreEmoji', 'Ignorer les emoji en tête', '"🔥 À faire" correspond à "À faire"'],
+            ['ignoreTrailingPunctuation', 'Ignorer la ponctuation finale', '"À faire :" correspond à "À faire"']
+        ];
+        for (const [option, name, desc] of matchingToggles) {
+            new Setting(containerEl)
+                .setName(`Titres de sections : ${name.toLowerCase()}`)
+                .setDesc(desc)
+                .addToggle(toggle => toggle
+                    .setValue(matching[option])
+                    .onChange(async (value) => {
+                        matching[option] = value;
+                        this.plugin.settings.sectionMatching = { ...matching };
+                        await this.plugin.saveSettings();
+                        await this.plugin.refreshBoardViews();
+                    }));
+        }
+
+        // Miniatures des layouts
+        const showThumbnails = this.plugin.settings.ui?.showThumbnails !== false;
+        new Setting(containerEl)
+            .setName('Afficher les miniatures')
+            .setDesc('Aperçu de la grille de chaque layout dans les listes de layouts')
+            .addToggle(toggle => toggle
+                .setValue(showThumbnails)
+                .onChange(async (value) => {
+                    this.plugin.settings.ui = {
+                        ...DEFAULT_SETTINGS.ui!,
+                        ...this.plugin.settings.ui,
+                        showThumbnails: value
+                    };
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        this.createLayoutGallery(containerEl, showThumbnails);
+    }
+
+    /**
+     * Liste les layouts disponibles, avec leur miniature si activée
+     */
+    private createLayoutGallery(containerEl: HTMLElement, showThumbnails: boolean): void {
+        const layouts = this.plugin.services.layout.getAllModelsInfo();
         const layoutDesc = containerEl.createEl('div', { cls: 'setting-item-description' });
-        layoutDesc.innerHTML = `
-            <p><strong>Layouts disponibles:</strong> Eisenhower, Kanban, GTD, Weekly Planner, Daily Planner, Project Board, Cornell Notes, Tasks Dashboard</p>
-        `;
+        layoutDesc.createEl('strong', { text: `Layouts disponibles (${layouts.length}) :` });
+
+        if (!showThumbnails) {
+            layoutDesc.appendText(` ${layouts.map(info => info.displayName).join(', ')}`);
+            return;
+        }
+
+        const gallery = containerEl.createDiv('agile-board-layout-gallery');
+        layouts.forEach(info => {
+            const card = gallery.createDiv('agile-board-layout-card');
+            card.setAttribute('aria-label', info.description);
+            const preview = card.createDiv('agile-board-layout-card-preview');
+            preview.innerHTML = info.thumbnail || '';
+            card.createDiv({ text: info.displayName, cls: 'agile-board-layout-card-name' });
+        });
     }
 }
\ No newline at end of file
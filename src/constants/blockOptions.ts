@@ -0,0 +1,49 @@
+import { BlockOptions } from '../types';
+
+/**
+ * Schéma des options de bloc (BoardLayout.metadata)
+ * Utilisé par LayoutService pour la validation et BoardView pour le rendu
+ */
+export class BlockOptionsConstants {
+    // ===============================================================
+    // SCHÉMA
+    // ===============================================================
+
+    /** Type attendu pour chaque option */
+    static readonly OPTION_TYPES: Record<keyof BlockOptions, 'string' | 'boolean'> = {
+        color: 'string',
+        icon: 'string',
+        collapsed: 'boolean',
+        hideTitle: 'boolean',
+        readOnly: 'boolean',
+        label: 'string'
+    };
+
+    /** Couleurs du thème Obsidian acceptées par nom (variables --color-xxx) */
+    static readonly THEME_COLORS = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink'];
+
+    /** Couleur hexadécimale (#rgb ou #rrggbb) */
+    static readonly HEX_COLOR_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+    // ===============================================================
+    // MÉTHODES UTILITAIRES
+    // ===============================================================
+
+    /**
+     * Vérifie qu'une couleur est une couleur du thème ou hexadécimale
+     */
+    static isValidColor(color: string): boolean {
+        return BlockOptionsConstants.THEME_COLORS.includes(color.toLowerCase()) ||
+            BlockOptionsConstants.HEX_COLOR_REGEX.test(color);
+    }
+
+    /**
+     * Convertit une couleur d'option en valeur CSS
+     * @example resolveColor("blue") // "var(--color-blue)"
+     */
+    static resolveColor(color: string): string {
+        return BlockOptionsConstants.THEME_COLORS.includes(color.toLowerCase())
+            ? `var(--color-${color.toLowerCase()})`
+            : color;
+    }
+}
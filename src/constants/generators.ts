@@ -0,0 +1,21 @@
+import { LayoutGenerator } from '../types';
+import { GeneratorUtils } from '../utils/generators';
+
+/**
+ * Layouts générateurs : blocs construits à partir du frontmatter de la note
+ *
+ * Un générateur est enregistré comme un layout intégré (avec ses valeurs
+ * par défaut) ; une note peut ensuite fournir ses propres valeurs :
+ * ```yaml
+ * agile-board: layout_columns
+ * agile-board-columns: [Backlog, Doing, Review, Done]
+ * ```
+ * Les métadonnées d'affichage sont dans LAYOUT_INFO.
+ */
+export const LAYOUT_GENERATORS: Record<string, LayoutGenerator> = {
+  layout_columns: {
+    parameter: "agile-board-columns",
+    defaults: ["À faire", "En cours", "Terminé"],
+    generate: values => GeneratorUtils.spreadColumns(values)
+  }
+};
@@ -18,6 +18,8 @@
  * - y: 0-99 (position verticale, 0 = haut, 99 = bas)
  * - w: 1-24 (largeur en colonnes, doit respecter x + w ≤ 24)
  * - h: 1-100 (hauteur en lignes, doit respecter y + h ≤ 100)
+ * Les layouts personnalisés et grilles inline peuvent déclarer d'autres
+ * dimensions ("grid: { columns: 12, rows: 50 }"), les bornes suivent alors.
  * 
  * MÉTHODOLOGIES SUPPORTÉES :
  * Ce fichier implémente des méthodes de productivité reconnues :
@@ -29,6 +31,18 @@
  * - Prise de notes structurée (Cornell)
  * - Intégrations avec plugins Obsidian (Tasks, Dataview)
  * 
+ * CONTENU INITIAL :
+ * - content : texte écrit dans la section à la création de la note
+ *   (requête Tasks, checklist...), avec les variables {{date}}, {{title}},
+ *   {{week}} et {{layout}}
+ * 
+ * TITRES DE SECTIONS :
+ * - title : titre de référence (français), utilisé pour créer les sections
+ * - titles : titres localisés par langue ({ en: "To Do" }), utilisés à la
+ *   création selon le réglage "Langue des titres de sections"
+ * - aliases : autres titres reconnus dans une note existante ("Todo")
+ * Une section dont le titre correspond à l'un de ces titres est associée au bloc.
+ * 
  * CONVENTION DE NOMMAGE :
  * - Préfixe "layout_" pour tous les identifiants de layout
  * - Noms en snake_case (layout_eisenhower, layout_kanban)
@@ -104,22 +118,26 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_eisenhower: [
     { 
-      title: "Urgent et Important", 
+      title: "Urgent et Important",
+      titles: { en: "Urgent and Important" }, aliases: ["Do First"],
       x: 0, y: 0, w: 12, h: 12 
       // Quadrant Q1 : Actions immédiates, gestion de crise
     },
     { 
-      title: "Pas urgent mais Important", 
+      title: "Pas urgent mais Important",
+      titles: { en: "Important but Not Urgent" }, aliases: ["Not Urgent but Important", "Schedule"],
       x: 12, y: 0, w: 12, h: 12 
       // Quadrant Q2 : Zone optimale de productivité, planification
     },
     { 
-      title: "Urgent mais Pas important", 
+      title: "Urgent mais Pas important",
+      titles: { en: "Urgent but Not Important" }, aliases: ["Delegate"],
       x: 0, y: 12, w: 12, h: 12 
       // Quadrant Q3 : Candidats à la délégation
     },
     { 
-      title: "Ni urgent ni important", 
+      title: "Ni urgent ni important",
+      titles: { en: "Neither Urgent nor Important" }, aliases: ["Not Urgent and Not Important", "Eliminate"],
       x: 12, y: 12, w: 12, h: 12 
       // Quadrant Q4 : Activités à éliminer ou réduire
     }
@@ -166,32 +184,38 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_gtd: [
     { 
-      title: "Inbox", 
+      title: "Inbox",
+      aliases: ["Boîte de réception"],
       x: 0, y: 0, w: 12, h: 8
       // Zone de capture : tout ce qui arrive sans traitement
     },
     { 
-      title: "Actions suivantes", 
+      title: "Actions suivantes",
+      titles: { en: "Next Actions" },
       x: 12, y: 0, w: 12, h: 8
       // Tâches clarifiées et prêtes à être exécutées
     },
     { 
-      title: "En attente", 
+      title: "En attente",
+      titles: { en: "Waiting For" },
       x: 0, y: 8, w: 8, h: 8
       // Délégué ou en attente de quelqu'un/quelque chose d'autre
     },
     { 
-      title: "Projets", 
+      title: "Projets",
+      titles: { en: "Projects" },
       x: 8, y: 8, w: 8, h: 8
       // Résultats désirés nécessitant plus d'une action
     },
     { 
-      title: "Someday Maybe", 
+      title: "Someday Maybe",
+      aliases: ["Un jour peut-être"],
       x: 16, y: 8, w: 8, h: 8
       // Idées intéressantes pour plus tard
     },
     { 
-      title: "Référence", 
+      title: "Référence",
+      titles: { en: "Reference" },
       x: 0, y: 16, w: 24, h: 8
       // Informations utiles à conserver pour consultation
     }
@@ -235,17 +259,20 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_kanban: [
     { 
-      title: "À faire", 
+      title: "À faire",
+      titles: { en: "To Do" }, aliases: ["Todo", "A faire"],
       x: 0, y: 0, w: 8, h: 24
       // Backlog : tâches priorisées en attente
     },
     { 
-      title: "En cours", 
+      title: "En cours",
+      titles: { en: "In Progress" }, aliases: ["Doing", "WIP"],
       x: 8, y: 0, w: 8, h: 24
       // Work In Progress : limite recommandée selon l'équipe
     },
     { 
-      title: "Terminé", 
+      title: "Terminé",
+      titles: { en: "Done" }, aliases: ["Termine", "Fait"],
       x: 16, y: 0, w: 8, h: 24
       // Done : validation et archivage des tâches complétées
     }
@@ -289,37 +316,43 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_weekly: [
     { 
-      title: "Lundi", 
+      title: "Lundi",
+      titles: { en: "Monday" },
       x: 0, y: 0, w: 6, h: 12 
       // Démarrage de semaine, objectifs et planification
     },
     { 
-      title: "Mardi", 
+      title: "Mardi",
+      titles: { en: "Tuesday" },
       x: 6, y: 0, w: 6, h: 12 
       // Productivité optimale, tâches importantes
     },
     { 
-      title: "Mercredi", 
+      title: "Mercredi",
+      titles: { en: "Wednesday" },
       x: 12, y: 0, w: 6, h: 12 
       // Milieu de semaine, ajustements et révisions
     },
     { 
-      title: "Jeudi", 
+      title: "Jeudi",
+      titles: { en: "Thursday" },
       x: 18, y: 0, w: 6, h: 12 
       // Finalisation des livrables de la semaine
     },
     { 
-      title: "Vendredi", 
+      title: "Vendredi",
+      titles: { en: "Friday" },
       x: 0, y: 12, w: 8, h: 12 
       // Clôture, bilans et préparation semaine suivante
     },
     { 
-      title: "Weekend", 
+      title: "Weekend",
+      aliases: ["Week-end"],
       x: 8, y: 12, w: 8, h: 12
       // Repos, activités personnelles, famille, loisirs
     },
     { 
-      title: "Notes", 
+      title: "Notes",
       x: 16, y: 12, w: 8, h: 12
       // Observations, idées, réflexions et apprentissages
     }
@@ -362,34 +395,41 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_daily: [
     { 
-      title: "Objectifs du jour", 
-      x: 0, y: 0, w: 12, h: 8
+      title: "Objectifs du jour",
+      titles: { en: "Daily Goals" }, aliases: ["Today's Goals"],
+      x: 0, y: 0, w: 12, h: 8,
       // Maximum 3 objectifs SMART pour la journée
+      content: "- [ ] \n- [ ] \n- [ ] "
     },
     { 
-      title: "Tâches prioritaires", 
+      title: "Tâches prioritaires",
+      titles: { en: "Priority Tasks" },
       x: 12, y: 0, w: 12, h: 8
       // Actions importantes qui font avancer les objectifs
     },
     { 
-      title: "Planning", 
+      title: "Planning",
+      aliases: ["Schedule"],
       x: 0, y: 8, w: 8, h: 8
       // Emploi du temps, rendez-vous, créneaux de travail
     },
     { 
-      title: "Notes", 
+      title: "Notes",
       x: 8, y: 8, w: 8, h: 8
       // Capture rapide d'idées, observations, informations
     },
     { 
-      title: "Apprentissages", 
+      title: "Apprentissages",
+      titles: { en: "Learnings" },
       x: 16, y: 8, w: 8, h: 8
       // Ce que j'ai appris aujourd'hui (compétences, insights)
     },
     { 
-      title: "Réflexions", 
-      x: 0, y: 16, w: 24, h: 8
+      title: "Réflexions",
+      titles: { en: "Reflections" },
+      x: 0, y: 16, w: 24, h: 8,
       // Bilan de journée, points d'amélioration, gratitude
+      content: "- Ce qui a bien marché :\n- À améliorer :\n- Gratitude :"
     }
   ],
 
@@ -434,32 +474,38 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_project: [
     { 
-      title: "Vue d'ensemble", 
+      title: "Vue d'ensemble",
+      titles: { en: "Overview" },
       x: 0, y: 0, w: 24, h: 6
       // Contexte, vision, objectifs généraux, parties prenantes
     },
     { 
-      title: "Objectifs", 
+      title: "Objectifs",
+      titles: { en: "Goals" }, aliases: ["Objectives"],
       x: 0, y: 6, w: 8, h: 9
       // Objectifs SMART, critères de succès, KPIs
     },
     { 
-      title: "Étapes", 
+      title: "Étapes",
+      titles: { en: "Milestones" }, aliases: ["Steps"],
       x: 8, y: 6, w: 8, h: 9
       // Jalons, phases, roadmap, planning général
     },
     { 
-      title: "Ressources", 
+      title: "Ressources",
+      titles: { en: "Resources" },
       x: 16, y: 6, w: 8, h: 9
       // Équipe, budget, outils, compétences nécessaires
     },
     { 
-      title: "Risques", 
+      title: "Risques",
+      titles: { en: "Risks" },
       x: 0, y: 15, w: 12, h: 9
       // Identification, évaluation, plans de mitigation
     },
     { 
-      title: "Suivi", 
+      title: "Suivi",
+      titles: { en: "Tracking" }, aliases: ["Follow-up"],
       x: 12, y: 15, w: 12, h: 9
       // Métriques, avancement, reporting, ajustements
     }
@@ -503,12 +549,13 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_simple: [
     { 
-      title: "Ideas", 
+      title: "Ideas",
+      aliases: ["Idées"],
       x: 0, y: 0, w: 12, h: 24
       // Idées, concepts, possibilités, réflexions
     },
     { 
-      title: "Actions", 
+      title: "Actions",
       x: 12, y: 0, w: 12, h: 24
       // Actions concrètes, tâches, étapes suivantes
     }
@@ -558,17 +605,19 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    */
   layout_cornell: [
     { 
-      title: "Notes", 
+      title: "Notes",
       x: 0, y: 0, w: 16, h: 18
       // Zone principale de prise de notes pendant l'écoute
     },
     { 
-      title: "Mots-clés", 
+      title: "Mots-clés",
+      titles: { en: "Keywords" }, aliases: ["Cues"],
       x: 16, y: 0, w: 8, h: 18
       // Marge pour concepts clés, questions, indices de révision
     },
     { 
-      title: "Résumé", 
+      title: "Résumé",
+      titles: { en: "Summary" },
       x: 0, y: 18, w: 24, h: 6
       // Synthèse personnelle en fin de session
     }
@@ -613,38 +662,44 @@ export const BUILT_IN_LAYOUTS: BoardModel = {
    * │ (par projet)      │(métriq.)│
    * └───────────────────┴─────────┘
    * 
-   * REQUÊTES TASKS SUGGÉRÉES :
-   * - Aujourd'hui : ```tasks due today not done```
-   * - Cette semaine : ```tasks due this week not done```
-   * - En retard : ```tasks due before today not done```
-   * - Par projet : ```tasks group by project```
+   * REQUÊTES TASKS (contenu initial des blocs) :
+   * - Aujourd'hui : ```tasks not done / due today```
+   * - Cette semaine : ```tasks not done / due this week```
+   * - En retard : ```tasks not done / due before today```
+   * - Par projet : ```tasks not done / group by folder```
    * 
    * GRILLE TECHNIQUE : Vue temporelle + organisation + analytics
    * CAS D'USAGE : Gestion avancée des tâches, productivité, suivi projets
    */
   layout_tasks_dashboard: [
     { 
-      title: "Tâches du jour", 
-      x: 0, y: 0, w: 8, h: 12
-      // ```tasks due today not done```
+      title: "Tâches du jour",
+      titles: { en: "Today's Tasks" },
+      x: 0, y: 0, w: 8, h: 12,
+      content: "```tasks\nnot done\ndue today\n```"
     },
     { 
-      title: "Cette semaine", 
-      x: 8, y: 0, w: 8, h: 12
-      // ```tasks due this week not done```
+      title: "Cette semaine",
+      titles: { en: "This Week" },
+      x: 8, y: 0, w: 8, h: 12,
+      content: "```tasks\nnot done\ndue this week\n```"
     },
     { 
-      title: "En retard", 
-      x: 16, y: 0, w: 8, h: 12
-      // ```tasks due before today not done```
+      title: "En retard",
+      titles: { en: "Overdue" },
+      x: 16, y: 0, w: 8, h: 12,
+      content: "```tasks\nnot done\ndue before today\n```"
     },
     { 
-      title: "Projets actifs", 
-      x: 0, y: 12, w: 12, h: 12
-      // ```tasks group by project``` ou organisation manuelle
+      title: "Projets actifs",
+      titles: { en: "Active Projects" },
+      x: 0, y: 12, w: 12, h: 12,
+      // Regroupement par dossier ; remplaçable par une organisation manuelle
+      content: "```tasks\nnot done\ngroup by folder\n```"
     },
     { 
-      title: "Statistiques", 
+      title: "Statistiques",
+      titles: { en: "Statistics" }, aliases: ["Stats"],
       x: 12, y: 12, w: 12, h: 12
       // Métriques, tendances, analyse de productivité
     }
@@ -679,7 +734,8 @@ export const LAYOUT_INFO: Record<string, LayoutInfo> = {
     description: "Système de priorisation basé sur l'urgence et l'importance. Parfait pour la gestion quotidienne et les décisions stratégiques.",
     sections: ["Urgent et Important", "Pas urgent mais Important", "Urgent mais Pas important", "Ni urgent ni important"],
     blockCount: 4,
-    category: "productivité"
+    category: "productivité",
+    featured: true
   },
 
   layout_gtd: {
@@ -697,6 +753,16 @@ export const LAYOUT_INFO: Record<string, LayoutInfo> = {
     description: "Visualisation du flux de travail avec limitation du travail en cours. Idéal pour le développement et la gestion d'équipe.",
     sections: ["À faire", "En cours", "Terminé"],
     blockCount: 3,
+    category: "workflow",
+    featured: true
+  },
+
+  layout_columns: {
+    name: "layout_columns",
+    displayName: "Colonnes personnalisées",
+    description: "Kanban aux colonnes libres : listez-les dans \"agile-board-columns\" du frontmatter, elles sont réparties sur toute la largeur.",
+    sections: ["À faire", "En cours", "Terminé"],
+    blockCount: 3,
     category: "workflow"
   },
 
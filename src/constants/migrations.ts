@@ -0,0 +1,18 @@
+import { LayoutMigration } from '../types';
+
+/**
+ * Historique des changements de sections des layouts intégrés
+ *
+ * Toute modification d'un titre de bloc dans BUILT_IN_LAYOUTS doit ajouter
+ * une migration ici : sans elle, les notes existantes afficheraient la
+ * section renommée comme manquante. Les sections ajoutées n'ont pas à être
+ * listées, la migration crée toutes les sections absentes.
+ *
+ * La version d'un layout est celle de sa dernière migration (1 sans migration).
+ *
+ * @example
+ * layout_kanban: [
+ *   { version: 2, description: "Colonne de revue", renames: { "Terminé": "Fait" } }
+ * ]
+ */
+export const LAYOUT_MIGRATIONS: Record<string, LayoutMigration[]> = {};
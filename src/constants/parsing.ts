@@ -7,12 +7,27 @@ export class ParsingConstants {
     // CONSTANTES DE PARSING
     // ===============================================================
     
-    /** Niveau de titre pour les sections (2 = ##) */
+    /** Niveau de titre par défaut pour les sections (2 = ##) */
     static readonly SECTION_HEADER_LEVEL = 2;
     
+    /** Niveaux de titre Markdown utilisables pour les sections */
+    static readonly MIN_HEADING_LEVEL = 1;
+    static readonly MAX_HEADING_LEVEL = 6;
+    
+    /** Clé du frontmatter fixant le niveau de titre des sections d'une note */
+    static readonly HEADING_LEVEL_KEY = 'agile-board-heading';
+    
     /** Regex pour détecter les titres de sections (pré-compilée pour performance) */
     static readonly SECTION_HEADER_REGEX = new RegExp(`^#{${ParsingConstants.SECTION_HEADER_LEVEL}} ([^\n#].*?)\\s*$`);
     
+    /** Regex d'un titre Markdown de niveau quelconque */
+    static readonly HEADING_REGEX = /^(#{1,6}) [^\n#]/;
+    
+    /** Regex des titres de sections déjà compilées, par niveau */
+    private static readonly headerRegexes = new Map<number, RegExp>([
+        [ParsingConstants.SECTION_HEADER_LEVEL, ParsingConstants.SECTION_HEADER_REGEX]
+    ]);
+    
     /** Regex pour détecter le frontmatter YAML */
     static readonly FRONTMATTER_DELIMITER = /^---\s*$/;
     
@@ -26,32 +41,75 @@ export class ParsingConstants {
     // MÉTHODES UTILITAIRES
     // ===============================================================
     
+    /**
+     * Regex des titres de sections pour un niveau (compilée une fois par niveau)
+     * @param level - Niveau de titre (1 = #, 2 = ##...)
+     */
+    static getSectionHeaderRegex(level: number = ParsingConstants.SECTION_HEADER_LEVEL): RegExp {
+        let regex = ParsingConstants.headerRegexes.get(level);
+        if (!regex) {
+            regex = new RegExp(`^#{${level}} ([^\n#].*?)\\s*$`);
+            ParsingConstants.headerRegexes.set(level, regex);
+        }
+        return regex;
+    }
+    
+    /**
+     * Vérifie qu'une valeur est un niveau de titre Markdown (1 à 6)
+     */
+    static isValidHeadingLevel(level: unknown): level is number {
+        return Number.isInteger(level) &&
+            (level as number) >= ParsingConstants.MIN_HEADING_LEVEL &&
+            (level as number) <= ParsingConstants.MAX_HEADING_LEVEL;
+    }
+    
+    /**
+     * Niveau d'une ligne de titre Markdown
+     * @returns Niveau (1 à 6) ou null si la ligne n'est pas un titre
+     */
+    static getHeadingLevel(line: string): number | null {
+        const match = line.match(ParsingConstants.HEADING_REGEX);
+        return match ? match[1].length : null;
+    }
+    
     /**
      * Vérifie si une ligne est un titre de section
      * @param line - Ligne à vérifier
+     * @param level - Niveau de titre des sections
      * @returns true si c'est un titre de section
      */
-    static isSectionHeader(line: string): boolean {
-        return ParsingConstants.SECTION_HEADER_REGEX.test(line);
+    static isSectionHeader(line: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): boolean {
+        return ParsingConstants.getSectionHeaderRegex(level).test(line);
+    }
+    
+    /**
+     * Vérifie si une ligne termine une section : titre de section ou titre
+     * de rang supérieur (ex: un ## de structure quand les sections sont en ###)
+     */
+    static endsSection(line: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): boolean {
+        const headingLevel = ParsingConstants.getHeadingLevel(line);
+        return headingLevel !== null && headingLevel <= level;
     }
     
     /**
      * Extrait le nom d'une section depuis une ligne de titre
      * @param line - Ligne contenant le titre
+     * @param level - Niveau de titre des sections
      * @returns Nom de la section ou null si pas trouvé
      */
-    static extractSectionName(line: string): string | null {
-        const match = line.match(ParsingConstants.SECTION_HEADER_REGEX);
+    static extractSectionName(line: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): string | null {
+        const match = line.match(ParsingConstants.getSectionHeaderRegex(level));
         return match ? match[1].trim() : null;
     }
     
     /**
      * Génère un titre de section formaté
      * @param sectionName - Nom de la section
+     * @param level - Niveau de titre des sections
      * @returns Titre formaté (ex: "## Ma Section")
      */
-    static formatSectionHeader(sectionName: string): string {
-        return `${'#'.repeat(ParsingConstants.SECTION_HEADER_LEVEL)} ${sectionName}`;
+    static formatSectionHeader(sectionName: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): string {
+        return `${'#'.repeat(level)} ${sectionName}`;
     }
     
     /**
@@ -24,6 +24,14 @@ export class AgileBoardError extends Error {
         );
     }
 
+    static fileWriteError(filePath: string, originalError: Error): AgileBoardError {
+        return new AgileBoardError(
+            `Impossible d'écrire le fichier "${filePath}"`,
+            'FILE_WRITE_ERROR',
+            { filePath, originalError: originalError.message }
+        );
+    }
+
     static validationError(field: string, value: unknown): AgileBoardError {
         return new AgileBoardError(
             `Validation échouée pour le champ "${field}"`,
@@ -31,4 +39,44 @@ export class AgileBoardError extends Error {
             { field, value }
         );
     }
-}
\ No newline at end of file
+
+    static sectionNotFound(filePath: string, sectionName: string): AgileBoardError {
+        return new AgileBoardError(
+            `Section "${sectionName}" non trouvée dans "${filePath}"`,
+            'SECTION_NOT_FOUND',
+            { filePath, sectionName }
+        );
+    }
+
+    /**
+     * La section a été modifiée ailleurs depuis son dernier affichage
+     * @param current - Contenu actuel de la section dans le fichier
+     */
+    static sectionConflict(filePath: string, sectionName: string, current: string): AgileBoardError {
+        return new AgileBoardError(
+            `Section "${sectionName}" modifiée ailleurs dans "${filePath}"`,
+            'SECTION_CONFLICT',
+            { filePath, sectionName, current }
+        );
+    }
+
+    /**
+     * La note a été modifiée depuis l'aperçu d'une réécriture
+     * (ou depuis la lecture qui l'a préparée)
+     */
+    static noteChanged(filePath: string): AgileBoardError {
+        return new AgileBoardError(
+            `La note "${filePath}" a changé depuis l'aperçu`,
+            'NOTE_CHANGED',
+            { filePath }
+        );
+    }
+
+    static layoutInheritanceCycle(chain: string[]): AgileBoardError {
+        return new AgileBoardError(
+            `Héritage cyclique entre layouts : ${chain.join(' → ')}`,
+            'LAYOUT_INHERITANCE_CYCLE',
+            { chain }
+        );
+    }
+}
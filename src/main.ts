@@ -6,6 +6,12 @@ import { BoardView, BOARD_VIEW_TYPE } from './views/BoardView';
 import { ViewSwitcher } from './managers/ViewSwitcher';
 import { ModelDetector } from './managers/ModelDetector';
 import { AgileBoardSettingsTab } from './components/SettingsTab';
+import { ChangeLayoutModal } from './components/ChangeLayoutModal';
+import { LayoutDesignerModal } from './components/LayoutDesignerModal';
+import { LayoutPickerModal } from './components/LayoutPickerModal';
+import { LayoutValidationModal } from './components/LayoutValidationModal';
+import { MigrationReportModal } from './components/MigrationReportModal';
+import { NormalizeNoteModal } from './components/NormalizeNoteModal';
 
 /**
  * Plugin principal Agile Board v0.9.0 - Avec Support Universel des Plugins
@@ -170,16 +176,13 @@ export default class AgileBoardPlugin extends Plugin {
      * Enregistre toutes les commandes
      */
     private registerCommands(): void {
-        // Commandes de création utilisant le ServiceContainer
-        const layouts = this.services.layout.getAllModelsInfo();
-        
-        layouts.forEach(layout => {
-            this.addCommand({
-                id: `create-${layout.name.replace('layout_', '')}-note`,
-                name: `Créer ${layout.displayName}`,
-                callback: () => this.createNote(layout.name)
-            });
+        // Création de board : un seul sélecteur pour tous les layouts
+        this.addCommand({
+            id: 'new-board',
+            name: 'Nouveau board',
+            callback: () => new LayoutPickerModal(this.app, this).open()
         });
+        this.services.customLayouts.onLayoutsChanged(() => this.onLayoutsChanged());
 
         // Commande de basculement
         this.addCommand({
@@ -201,6 +204,54 @@ export default class AgileBoardPlugin extends Plugin {
             callback: () => this.createMissingSections()
         });
 
+        this.addCommand({
+            id: 'change-layout',
+            name: 'Changer le layout de la note',
+            checkCallback: (checking: boolean) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                const hasLayout = !!activeFile &&
+                    !!this.app.metadataCache.getFileCache(activeFile)?.frontmatter?.['agile-board'];
+                if (!hasLayout) return false;
+                if (!checking) {
+                    new ChangeLayoutModal(this.app, this, activeFile!).open();
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'normalize-board-note',
+            name: 'Normaliser la note board',
+            checkCallback: (checking: boolean) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                const hasLayout = !!activeFile &&
+                    !!this.app.metadataCache.getFileCache(activeFile)?.frontmatter?.['agile-board'];
+                if (!hasLayout) return false;
+                if (!checking) {
+                    this.normalizeNote(activeFile!);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'open-layout-designer',
+            name: 'Ouvrir le designer de layouts',
+            callback: () => new LayoutDesignerModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'validate-layouts',
+            name: 'Valider les layouts',
+            callback: () => new LayoutValidationModal(this.app, this).open()
+        });
+
+        this.addCommand({
+            id: 'migrate-notes',
+            name: 'Migrer les notes board vers la version courante des layouts',
+            callback: () => this.migrateNotes()
+        });
+
         // ✅ NOUVELLES COMMANDES pour les plugins
         this.addCommand({
             id: 'refresh-plugin-support',
@@ -222,16 +273,23 @@ export default class AgileBoardPlugin extends Plugin {
     }
 
     /**
-     * Crée une nouvelle note avec layout (utilise ServiceContainer)
+     * Réagit au rechargement des layouts utilisateur
      */
-    private async createNote(layoutName: string): Promise<void> {
-        try {
-            await this.services.file.createNoteWithLayout({
-                layoutName,
-                autoOpen: true
-            });
-        } catch (error) {
-            this.logger.error('Erreur création note', error);
+    private async onLayoutsChanged(): Promise<void> {
+        await this.refreshBoardViews();
+    }
+
+    /**
+     * Redessine les vues Board ouvertes (toutes, ou celles d'un fichier)
+     */
+    async refreshBoardViews(file?: TFile): Promise<void> {
+        const boardViews = this.app.workspace.getLeavesOfType(BOARD_VIEW_TYPE);
+        for (const leaf of boardViews) {
+            const view = leaf.view as BoardView;
+            if (file && view.file?.path !== file.path) continue;
+            if (view.renderBoardLayout) {
+                await view.renderBoardLayout();
+            }
         }
     }
 
@@ -252,6 +310,39 @@ export default class AgileBoardPlugin extends Plugin {
         }
     }
 
+    /**
+     * Propose la normalisation d'une note (ordre du layout, sections manquantes)
+     * avec un aperçu des changements
+     */
+    private async normalizeNote(file: TFile): Promise<void> {
+        try {
+            const normalization = await this.services.file.getNormalization(file);
+            if (normalization.after === normalization.before) {
+                new Notice('✅ La note suit déjà son layout');
+                return;
+            }
+
+            new NormalizeNoteModal(this.app, this, file, normalization, () => this.refreshBoardViews(file)).open();
+        } catch (error) {
+            this.logger.error('Erreur normalisation de la note', error);
+            new Notice('❌ Impossible de normaliser la note');
+        }
+    }
+
+    /**
+     * Migre les notes dont le layout a changé et affiche le rapport
+     */
+    private async migrateNotes(): Promise<void> {
+        const reports = await this.services.file.migrateNotes();
+        if (reports.length === 0) {
+            new Notice('✅ Toutes les notes board sont à jour');
+            return;
+        }
+
+        new MigrationReportModal(this.app, reports).open();
+        await this.refreshBoardViews();
+    }
+
     // ===================================================================
     // ✅ NOUVELLES MÉTHODES POUR LE SUPPORT DES PLUGINS
     // ===================================================================
@@ -337,15 +337,15 @@ export class ModelDetector {
   private hasAgileBoardLayout(file: TFile): boolean {
     // ÉTAPE 1 : Lire les métadonnées du fichier
     const fileCache = this.plugin.app.metadataCache.getFileCache(file);
-    const layoutName = fileCache?.frontmatter?.['agile-board'];
+    const layoutValue = fileCache?.frontmatter?.['agile-board'];
     
     // VÉRIFICATION 1 : Présence du champ
-    if (!layoutName) return false;
+    if (!layoutValue) return false;
 
-    // ÉTAPE 2 : Valider que le layout existe
-    const layout = this.plugin.layoutService.getModel(layoutName);
+    // ÉTAPE 2 : Valider que le layout existe (ou que la grille inline est valide)
+    const layout = this.plugin.layoutService.resolveLayout(layoutValue, file.path, fileCache?.frontmatter);
     if (!layout) {
-      this.logger.warn(`⚠️ Layout "${layoutName}" spécifié mais non trouvé`);
+      this.logger.warn(`⚠️ Layout "${typeof layoutValue === 'string' ? layoutValue : 'inline'}" spécifié mais non trouvé ou invalide`);
       return false;
     }
 
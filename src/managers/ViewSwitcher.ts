@@ -109,12 +109,12 @@ export class ViewSwitcher {
     
     try {
       const fileCache = this.plugin.app.metadataCache.getFileCache(file);
-      const layoutName = fileCache?.frontmatter?.['agile-board'];
+      const layoutValue = fileCache?.frontmatter?.['agile-board'];
       
-      if (!layoutName) return false;
+      if (!layoutValue) return false;
       
-      // Vérifier que le layout existe dans le service
-      const layout = this.plugin.layoutService?.getModel(layoutName);
+      // Vérifier que le layout existe dans le service (ou que la grille inline est valide)
+      const layout = this.plugin.layoutService?.resolveLayout(layoutValue, file.path, fileCache?.frontmatter);
       return !!layout;
     } catch (error) {
       this.logger.warn('⚠️ Erreur lors de la vérification du layout:', error);
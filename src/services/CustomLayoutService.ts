@@ -0,0 +1,352 @@
+/**
+ * =============================================================================
+ * SERVICE DE CHARGEMENT DES LAYOUTS UTILISATEUR
+ * =============================================================================
+ *
+ * Lit les fichiers JSON ou YAML du dossier de layouts configuré et les
+ * enregistre dans le LayoutService, qui les valide comme les layouts intégrés.
+ *
+ * FORMAT D'UN FICHIER DE LAYOUT :
+ * ```yaml
+ * name: layout_retro              # optionnel, dérivé du nom de fichier sinon
+ * displayName: Rétrospective
+ * description: Bilan de sprint
+ * category: workflow
+ * featured: false
+ * grid: { columns: 24, rows: 50 }  # optionnel, 24 × 100 par défaut
+ * headingLevel: 3                  # optionnel, niveau de titre des sections (2 par défaut)
+ * breakpoints:                     # optionnel, variantes pour vues étroites
+ *   - maxWidth: 600
+ *     columns: 12                  # blocs empilés sur toute la largeur
+ *     blocks:
+ *       - { title: "Ce qui a marché", x: 0, y: 0, w: 12, h: 12 }
+ *       - { title: "À améliorer", x: 0, y: 12, w: 12, h: 12 }
+ * blocks:
+ *   - { title: "Ce qui a marché", x: 0, y: 0, w: 12, h: 12 }
+ *   - { title: "À améliorer", x: 12, y: 0, w: 12, h: 12 }
+ * ```
+ *
+ * HÉRITAGE :
+ * `extends: layout_kanban` reprend les blocs d'un autre layout ; `remove`
+ * retire des blocs du parent et un bloc de même titre le repositionne.
+ *
+ * VERSIONS :
+ * Renommer un bloc d'un layout déjà utilisé se déclare dans `migrations`
+ * (`- { version: 2, renames: { "Ancien": "Nouveau" } }`) ; la commande
+ * "Migrer les notes board" met ensuite les notes existantes à jour.
+ *
+ * RECHARGEMENT À CHAUD :
+ * Les événements du vault (création, modification, suppression, renommage)
+ * concernant le dossier de layouts déclenchent un rechargement différé.
+ */
+
+import { App, Plugin, TAbstractFile, TFile, debounce, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import { CustomLayoutDefinition, LayoutMigration } from '../types';
+import { LayoutService } from './LayoutService';
+import { LoggerService } from './LoggerService';
+import { AgileBoardError } from '../errors/AgileBoardError';
+import { ParsingConstants } from '../constants/parsing';
+
+export class CustomLayoutService {
+    /** Extensions de fichiers reconnues comme définitions de layout */
+    private static readonly SUPPORTED_EXTENSIONS = ['json', 'yaml', 'yml'];
+
+    /** Délai de regroupement des événements du vault avant rechargement (ms) */
+    private static readonly RELOAD_DELAY = 500;
+
+    /** Hauteur (en lignes de grille) d'un bloc ajouté par addBlock */
+    private static readonly NEW_BLOCK_HEIGHT = 12;
+
+    private listeners: Array<() => void> = [];
+    private readonly scheduleReload: () => void;
+
+    constructor(
+        private app: App,
+        private layoutService: LayoutService,
+        private logger: LoggerService,
+        private folder: string
+    ) {
+        this.scheduleReload = debounce(() => {
+            this.loadAll().catch(error => {
+                this.logger.error('Erreur rechargement des layouts personnalisés', error);
+            });
+        }, CustomLayoutService.RELOAD_DELAY, true);
+    }
+
+    // ===================================================================
+    // CHARGEMENT
+    // ===================================================================
+
+    /**
+     * Lit tous les fichiers de layout du dossier et met à jour le LayoutService
+     * @returns Nombre de définitions lues (avant validation géométrique)
+     */
+    async loadAll(): Promise<number> {
+        const definitions: CustomLayoutDefinition[] = [];
+
+        for (const file of this.getLayoutFiles()) {
+            try {
+                const content = await this.app.vault.cachedRead(file);
+                definitions.push(CustomLayoutService.parseDefinition(content, file));
+            } catch (error) {
+                this.logger.warn(`⚠️ Layout personnalisé "${file.path}" ignoré`, {
+                    error: (error as Error).message
+                });
+            }
+        }
+
+        this.layoutService.setCustomLayouts(definitions);
+        this.logger.info('📐 Layouts personnalisés chargés', {
+            folder: this.folder,
+            count: definitions.length
+        });
+
+        this.listeners.forEach(listener => listener());
+        return definitions.length;
+    }
+
+    /**
+     * Change le dossier surveillé et recharge les layouts
+     */
+    async setFolder(folder: string): Promise<void> {
+        if (folder === this.folder) return;
+        this.folder = folder;
+        await this.loadAll();
+    }
+
+    getFolder(): string {
+        return this.folder;
+    }
+
+    /**
+     * Abonne un callback aux rechargements (commandes, vues ouvertes...)
+     */
+    onLayoutsChanged(listener: () => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Enregistre une définition dans le dossier de layouts
+     *
+     * Le fichier existant du même layout est réécrit dans son format (JSON
+     * ou YAML) ; un nouveau layout est enregistré en JSON. Le rechargement
+     * est fait immédiatement pour que le layout soit disponible sans
+     * attendre l'événement du vault.
+     */
+    async saveLayout(definition: CustomLayoutDefinition): Promise<TFile> {
+        const folder = this.getNormalizedFolder();
+        if (!folder) {
+            throw AgileBoardError.validationError('layoutsFolder', this.folder);
+        }
+
+        if (!this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const { source, ...data } = definition;
+        const path = source && this.isLayoutPath(source)
+            ? source
+            : normalizePath(`${folder}/${definition.name.replace(/^layout_/, '')}.json`);
+        // Mêmes champs en YAML qu'en JSON (valeurs non définies omises)
+        const json = JSON.stringify(data, null, 2);
+        const content = CustomLayoutService.isYamlPath(path) ? stringifyYaml(JSON.parse(json)) : json;
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        let file: TFile;
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            file = existing;
+        } else {
+            file = await this.app.vault.create(path, content);
+        }
+
+        this.logger.success('Layout personnalisé enregistré', { name: definition.name, path });
+        await this.loadAll();
+        return file;
+    }
+
+    /**
+     * Ajoute un bloc sous les blocs d'un layout, sur toute la largeur
+     *
+     * Un layout personnalisé est modifié directement. Un layout intégré ne
+     * l'est jamais : un layout personnalisé qui l'étend est créé avec le bloc.
+     *
+     * @param layoutName - Layout de la note
+     * @param title - Titre du nouveau bloc
+     * @param noteName - Nom de la note, repris par le layout dérivé
+     * @returns Nom du layout contenant le bloc (à enregistrer dans la note s'il a changé)
+     * @throws AgileBoardError si le layout est généré, inconnu, ou si la grille est pleine
+     */
+    async addBlock(layoutName: string, title: string, noteName: string): Promise<string> {
+        const blocks = this.layoutService.getModel(layoutName);
+        if (!blocks || this.layoutService.getGenerator(layoutName)) {
+            throw AgileBoardError.validationError('layout', layoutName);
+        }
+
+        const grid = this.layoutService.getGrid(layoutName);
+        const bottom = Math.max(0, ...blocks.map(block => block.y + block.h));
+        const block = {
+            title,
+            x: 0,
+            y: bottom,
+            w: grid.columns,
+            h: Math.min(CustomLayoutService.NEW_BLOCK_HEIGHT, grid.rows - bottom)
+        };
+        if (!this.layoutService.isBlockInBounds(block, grid)) {
+            throw AgileBoardError.validationError('grid', grid);
+        }
+
+        const custom = this.layoutService.isCustomLayout(layoutName)
+            ? this.layoutService.getCustomDefinition(layoutName)
+            : undefined;
+        if (custom) {
+            await this.saveLayout({ ...custom, blocks: [...custom.blocks, block] });
+            return layoutName;
+        }
+
+        let name = CustomLayoutService.toLayoutName(`${layoutName}_${noteName}`);
+        for (let suffix = 2; this.layoutService.getModel(name); suffix++) {
+            name = CustomLayoutService.toLayoutName(`${layoutName}_${noteName}_${suffix}`);
+        }
+
+        await this.saveLayout({
+            name,
+            displayName: `${this.layoutService.getLayoutDisplayName(layoutName)} (${noteName})`,
+            extends: layoutName,
+            blocks: [block]
+        });
+        return name;
+    }
+
+    // ===================================================================
+    // SURVEILLANCE DU VAULT
+    // ===================================================================
+
+    /**
+     * Enregistre les écouteurs du vault via le plugin (nettoyage automatique)
+     */
+    watch(plugin: Plugin): void {
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            if (this.isLayoutPath(file.path) || (oldPath && this.isLayoutPath(oldPath))) {
+                this.logger.debug('🔄 Changement détecté dans le dossier de layouts', { path: file.path });
+                this.scheduleReload();
+            }
+        };
+
+        plugin.registerEvent(this.app.vault.on('create', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('modify', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('delete', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => onChange(file, oldPath)));
+    }
+
+    /**
+     * Vérifie si un chemin correspond à un fichier de layout du dossier surveillé
+     */
+    isLayoutPath(path: string): boolean {
+        const folder = this.getNormalizedFolder();
+        if (!folder || !path.startsWith(`${folder}/`)) return false;
+
+        const extension = path.split('.').pop()?.toLowerCase() || '';
+        return CustomLayoutService.SUPPORTED_EXTENSIONS.includes(extension);
+    }
+
+    private static isYamlPath(path: string): boolean {
+        return /\.ya?ml$/i.test(path);
+    }
+
+    private getLayoutFiles(): TFile[] {
+        return this.app.vault.getFiles().filter(file => this.isLayoutPath(file.path));
+    }
+
+    private getNormalizedFolder(): string {
+        const folder = this.folder?.trim();
+        return folder ? normalizePath(folder) : '';
+    }
+
+    // ===================================================================
+    // PARSING DES DÉFINITIONS
+    // ===================================================================
+
+    /**
+     * Convertit le contenu d'un fichier en définition de layout
+     *
+     * La géométrie n'est pas vérifiée ici : LayoutService.validateModel
+     * s'en charge lors de l'enregistrement.
+     *
+     * @throws AgileBoardError si le fichier n'a pas la structure attendue
+     */
+    static parseDefinition(content: string, file: TFile): CustomLayoutDefinition {
+        const raw = file.extension.toLowerCase() === 'json'
+            ? JSON.parse(content)
+            : parseYaml(content);
+
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            throw AgileBoardError.validationError('layout', file.path);
+        }
+
+        const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+        const parent = optionalString(raw.extends);
+
+        // Un layout qui étend un parent peut se contenter de retirer des blocs
+        const blocks = raw.blocks ?? [];
+        if (!Array.isArray(blocks) || (!parent && blocks.length === 0)) {
+            throw AgileBoardError.validationError('blocks', raw.blocks);
+        }
+
+        if (raw.remove !== undefined && !Array.isArray(raw.remove)) {
+            throw AgileBoardError.validationError('remove', raw.remove);
+        }
+
+        if (raw.grid !== undefined && (!raw.grid || typeof raw.grid !== 'object' || Array.isArray(raw.grid))) {
+            throw AgileBoardError.validationError('grid', raw.grid);
+        }
+
+        if (raw.headingLevel !== undefined && !ParsingConstants.isValidHeadingLevel(raw.headingLevel)) {
+            throw AgileBoardError.validationError('headingLevel', raw.headingLevel);
+        }
+
+        const isMigration = (migration: unknown): migration is LayoutMigration => {
+            if (!migration || typeof migration !== 'object') return false;
+            const { version, renames, description } = migration as Record<string, unknown>;
+            return typeof version === 'number' && Number.isInteger(version) && version > 1 &&
+                (renames === undefined || (!!renames && typeof renames === 'object' && !Array.isArray(renames) &&
+                    Object.values(renames).every(title => typeof title === 'string'))) &&
+                (description === undefined || typeof description === 'string');
+        };
+        if (raw.migrations !== undefined && (!Array.isArray(raw.migrations) || !raw.migrations.every(isMigration))) {
+            throw AgileBoardError.validationError('migrations', raw.migrations);
+        }
+
+        return {
+            name: CustomLayoutService.toLayoutName(optionalString(raw.name) || file.basename),
+            displayName: optionalString(raw.displayName),
+            description: optionalString(raw.description),
+            category: optionalString(raw.category),
+            featured: raw.featured === true,
+            blocks,
+            grid: raw.grid,
+            breakpoints: raw.breakpoints,
+            headingLevel: raw.headingLevel,
+            extends: parent,
+            remove: raw.remove,
+            migrations: raw.migrations,
+            source: file.path
+        };
+    }
+
+    /**
+     * Normalise un nom libre en identifiant "layout_xxx"
+     * @example toLayoutName("Ma Rétro") // "layout_ma_retro"
+     */
+    static toLayoutName(name: string): string {
+        const slug = name
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/^layout_/, '')
+            .replace(/[^a-z0-9_]+/g, '_')
+            .replace(/^_+|_+$/g, '');
+
+        return `layout_${slug || 'custom'}`;
+    }
+}
@@ -1,26 +1,67 @@
 import { App, TFile, Notice } from 'obsidian';
-import { BoardLayout } from '../types';
+import { BoardLayout, NoteMigrationReport, NoteNormalization, ResolvedLayout, SectionMapping, SectionRange, TemplateContext } from '../types';
 import { LoggerService } from './LoggerService';
 import { LayoutService } from './LayoutService';
 import { FileCache } from '../cache/FileCache';
 import { AgileBoardError } from '../errors/AgileBoardError';
-import { ParsingConstants } from 'src/constants/parsing';
+import { ParsingConstants } from '../constants/parsing';
+import { SectionUtils } from '../utils/sections';
+import { SectionMatcher } from '../utils/matcher';
+import { TemplateUtils } from '../utils/template';
+import { MigrationUtils } from '../utils/migration';
 
 export interface ParsedSection {
     name: string;
+    /** Index de la ligne de titre et fin de section (exclusive) */
     startLine: number;
     endLine: number;
+    /** Position (en caractères) du titre et de la fin de section */
+    startOffset: number;
+    endOffset: number;
     content: string;
     lines: string[];
     isFromLayout: boolean;
 }
 
+/**
+ * Section présente plusieurs fois dans une note (même nom, casse ignorée)
+ */
+export interface DuplicateSection {
+    /** Nom de la première occurrence */
+    name: string;
+    /** Occurrences dans l'ordre de la note */
+    occurrences: ParsedSection[];
+    /** Index de l'occurrence affichée et éditée par le board */
+    selected: number;
+}
+
+/**
+ * Mise à jour de section en attente dans la file d'écriture d'un fichier
+ */
+interface PendingSectionUpdate {
+    sectionName: string;
+    /** Nom normalisé (voir SectionMatcher.key) */
+    key: string;
+    content: string;
+    expected?: string;
+    /** Appels en attente du résultat (plusieurs si la demande a été remplacée) */
+    callbacks: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+interface SectionWriteQueue {
+    pending: PendingSectionUpdate[];
+    /** Dernier contenu écrit par section, tant que la file est active */
+    written: Map<string, string>;
+    running: boolean;
+}
+
 export interface FileAnalysis {
     file: TFile;
     layoutName: string;
     existingSections: ParsedSection[];
     missingSections: string[];
     extraSections: string[];
+    duplicateSections: DuplicateSection[];
     correctOrder: string[];
 }
 
@@ -45,6 +86,11 @@ export interface NoteCreationResult {
  */
 export class FileService {
     private cache: FileCache;
+    private sectionLanguage = '';
+    /** Occurrence choisie des sections en double : fichier → nom normalisé → index */
+    private duplicateChoices = new Map<string, Map<string, number>>();
+    /** File d'écriture des sections, par fichier (voir updateSectionContent) */
+    private writeQueues = new Map<string, SectionWriteQueue>();
 
     constructor(
         private app: App,
@@ -54,63 +100,189 @@ export class FileService {
         this.cache = new FileCache();
     }
 
+    /**
+     * Langue des titres des sections créées (voir SectionUtils.localizedTitle)
+     */
+    setSectionLanguage(language: string): void {
+        this.sectionLanguage = language;
+    }
+
     // ===================================================================
     // MÉTHODES DE L'ANCIEN FILESERVICE (MAINTIEN COMPATIBILITÉ)
     // ===================================================================
 
     /**
- * Met à jour le contenu d'une section spécifique (méthode temporaire)
- */
-  async updateSectionContent(file: TFile, sectionName: string, content: string): Promise<void> {
-    try {
-      const fileContent = await this.app.vault.read(file);
-      const lines = fileContent.split('\n');
-      const newLines: string[] = [];
-      let inTargetSection = false;
-      let sectionFound = false;
-
-      for (const line of lines) {
-        if (ParsingConstants.SECTION_HEADER_REGEX.test(line)) {
-          if (inTargetSection) {
-            // Fin de la section précédente, ajouter le nouveau contenu
-            newLines.push(...content.split('\n'));
-            inTargetSection = false;
-          }
-          
-          const currentSection = line.substring(2).trim();
-          if (currentSection === sectionName) {
-            inTargetSection = true;
-            sectionFound = true;
-            newLines.push(line); // Garder le titre
-            continue;
-          }
+     * Met à jour le contenu d'une section spécifique
+     * Seul le contenu de la section est remplacé, à son emplacement dans la note
+     * relue (voir locateRanges) ; le reste du fichier est intact. Pour une section
+     * en double, seule l'occurrence choisie est modifiée (voir chooseDuplicateSection)
+     *
+     * Les mises à jour passent par la file d'écriture du fichier : celles
+     * demandées pendant une écriture en cours (autres frames) sont regroupées
+     * dans l'écriture suivante, dans l'ordre des demandes. Une nouvelle demande
+     * pour une section déjà en attente remplace son contenu. Chaque appel
+     * reçoit le résultat de sa propre section, même si d'autres échouent.
+     *
+     * Lecture, vérification et écriture sont atomiques (vault.process) : aucune
+     * modification faite entre-temps (autre panneau, synchronisation) n'est
+     * écrasée sans contrôle.
+     *
+     * @param expected - Contenu de la section au dernier affichage ; s'il ne
+     *   correspond plus au fichier, rien n'est écrit pour cette section
+     * @throws AgileBoardError SECTION_NOT_FOUND si le titre a disparu de la note
+     * @throws AgileBoardError SECTION_CONFLICT (contenu actuel dans context.current)
+     */
+    updateSectionContent(file: TFile, sectionName: string, content: string, expected?: string): Promise<void> {
+        let queue = this.writeQueues.get(file.path);
+        if (!queue) {
+            queue = { pending: [], written: new Map(), running: false };
+            this.writeQueues.set(file.path, queue);
         }
-        
-        if (!inTargetSection) {
-          newLines.push(line);
+        const key = SectionMatcher.key(sectionName);
+
+        const result = new Promise<void>((resolve, reject) => {
+            const waiting = queue!.pending.find(update => update.key === key);
+            if (waiting) {
+                waiting.content = content;
+                waiting.callbacks.push({ resolve, reject });
+            } else {
+                queue!.pending.push({ sectionName, key, content, expected, callbacks: [{ resolve, reject }] });
+            }
+        });
+
+        if (!queue.running) {
+            this.flushWrites(file, queue);
+        }
+        return result;
+    }
+
+    /**
+     * Vide la file d'écriture d'un fichier, un lot par écriture
+     */
+    private async flushWrites(file: TFile, queue: SectionWriteQueue): Promise<void> {
+        queue.running = true;
+        // Regroupe les sauvegardes demandées dans le même tick
+        await Promise.resolve();
+
+        while (queue.pending.length > 0) {
+            await this.writeSections(file, queue, queue.pending.splice(0));
+        }
+
+        queue.running = false;
+        this.writeQueues.delete(file.path);
+    }
+
+    /**
+     * Écrit un lot de mises à jour de sections en une seule opération
+     * Les sections en échec (introuvable, conflit) ne sont pas écrites et leur
+     * appel est rejeté ; les autres sections du lot sont écrites
+     */
+    private async writeSections(file: TFile, queue: SectionWriteQueue, batch: PendingSectionUpdate[]): Promise<void> {
+        const failures = new Map<PendingSectionUpdate, unknown>();
+
+        try {
+            await this.app.vault.process(file, fileContent => {
+                failures.clear();
+                const level = this.getHeadingLevel(file);
+
+                const updated = batch.reduce((text, update) => {
+                    try {
+                        return this.applySectionUpdate(file, text, update, level, queue.written.get(update.key));
+                    } catch (error) {
+                        failures.set(update, error);
+                        return text;
+                    }
+                }, fileContent);
+
+                // Aucune section à écrire : le fichier n'est pas touché
+                if (failures.size === batch.length) {
+                    throw failures.get(batch[0]);
+                }
+                return updated;
+            });
+        } catch (error) {
+            batch.filter(update => !failures.has(update)).forEach(update => failures.set(update, error));
         }
-      }
 
-      // Si on était encore dans la section à la fin
-      if (inTargetSection) {
-        newLines.push(...content.split('\n'));
-      }
+        batch.forEach(update => {
+            const error = failures.get(update);
+            if (error === undefined) {
+                queue.written.set(update.key, update.content.trim());
+                this.logger?.info(`✅ Section "${update.sectionName}" mise à jour`);
+                update.callbacks.forEach(callback => callback.resolve());
+            } else {
+                if (error instanceof AgileBoardError && error.code === 'SECTION_NOT_FOUND') {
+                    this.logger?.warn(`⚠️ Section "${update.sectionName}" non trouvée, écriture annulée`);
+                } else if (error instanceof AgileBoardError && error.code === 'SECTION_CONFLICT') {
+                    this.logger?.warn(`⚠️ Section "${update.sectionName}" modifiée ailleurs, écriture annulée`);
+                } else {
+                    this.logger?.error('❌ Erreur mise à jour section:', error);
+                }
+                update.callbacks.forEach(callback => callback.reject(error));
+            }
+        });
 
-      if (sectionFound) {
-        await this.app.vault.modify(file, newLines.join('\n'));
-        this.logger.info(`✅ Section "${sectionName}" mise à jour`);
-      } else {
-        this.logger.warn(`⚠️ Section "${sectionName}" non trouvée`);
-      }
-    } catch (error) {
-      this.logger.error('❌ Erreur mise à jour section:', error);
-      throw error;
+        if (batch.length > 1) {
+            this.logger?.debug('Sections écrites en une fois', { fileName: file.name, count: batch.length });
+        }
     }
-  }
+
+    /**
+     * Remplace le contenu d'une section dans le texte de la note
+     *
+     * @param written - Dernier contenu écrit par la file pour cette section :
+     *   une sauvegarde partie avant cette écriture reste valide
+     * @throws AgileBoardError SECTION_NOT_FOUND ou SECTION_CONFLICT
+     */
+    private applySectionUpdate(
+        file: TFile,
+        fileContent: string,
+        update: PendingSectionUpdate,
+        level: number,
+        written?: string
+    ): string {
+        const range = this.selectOccurrences(file, this.locateRanges(file, fileContent, level))
+            .find(section => SectionMatcher.key(section.name) === update.key);
+        if (!range) {
+            throw AgileBoardError.sectionNotFound(file.path, update.sectionName);
+        }
+
+        const current = fileContent.slice(range.contentOffset, range.endOffset).trim();
+        const accepted = [update.expected?.trim(), update.content.trim(), written];
+        if (update.expected !== undefined && !accepted.includes(current)) {
+            throw AgileBoardError.sectionConflict(file.path, update.sectionName, current);
+        }
+
+        return SectionUtils.replaceSectionContent(fileContent, range, update.content);
+    }
+
     /**
      * Parse les sections d'un fichier (méthode originale maintenue)
+     * @returns Contenu de chaque section, par nom
      */
     async parseSections(file: TFile): Promise<any> {
+        const sections = await this.getSections(file);
+        return sections.reduce<Record<string, string>>((contents, section) => {
+            contents[section.name] = section.content;
+            return contents;
+        }, {});
+    }
+
+    /**
+     * Sections d'un fichier avec leur emplacement, dans l'ordre de la note
+     *
+     * Une section en double n'apparaît qu'une fois : l'occurrence choisie
+     * (la première par défaut), celle que met à jour updateSectionContent.
+     */
+    async getSections(file: TFile): Promise<ParsedSection[]> {
+        return this.selectOccurrences(file, await this.getAllSections(file));
+    }
+
+    /**
+     * Toutes les sections d'un fichier, doublons compris
+     * (en cache jusqu'à la prochaine modification du fichier)
+     */
+    async getAllSections(file: TFile): Promise<ParsedSection[]> {
         const cacheKey = `sections-${file.path}`;
         
         return this.cache.get(
@@ -118,45 +290,38 @@ export class FileService {
             file.stat.mtime,
             async () => {
                 this.logger?.debug('Parsing sections (cache miss)', { fileName: file.name });
-                return this.parseFileContentOriginal(file);
+                return this.readSections(file);
             }
         );
     }
 
     /**
-     * Parse original maintenu pour compatibilité
+     * Lit et découpe les sections d'un fichier
+     * Seuls les titres hors blocs de code, de maths et commentaires comptent
      */
-    private async parseFileContentOriginal(file: TFile): Promise<any> {
+    private async readSections(file: TFile): Promise<ParsedSection[]> {
         this.logger.info('Parsing sections from file: ', file.name);
         try {
             const content = await this.app.vault.read(file);
-            const lines = content.split('\n');
-            const sections: any = {};
-            let currentSection = '';
-            let currentContent: string[] = [];
-
-            for (const line of lines) {
-                if (ParsingConstants.SECTION_HEADER_REGEX.test(line)) {
-                    // Sauvegarder la section précédente
-                    if (currentSection) {
-                        sections[currentSection] = currentContent.join('\n').trim();
-                    }
-                    // Commencer une nouvelle section
-                    currentSection = line.substring(2).trim();
-                    currentContent = [];
-                } else if (currentSection) {
-                    currentContent.push(line);
-                }
-            }
 
-            // Sauvegarder la dernière section
-            if (currentSection) {
-                sections[currentSection] = currentContent.join('\n').trim();
-            }
+            const sections = this.locateRanges(file, content, this.getHeadingLevel(file))
+                .map(range => {
+                    const sectionContent = content.slice(range.contentOffset, range.endOffset).trim();
+                    return {
+                        name: range.name,
+                        startLine: range.start,
+                        endLine: range.end,
+                        startOffset: range.startOffset,
+                        endOffset: range.endOffset,
+                        content: sectionContent,
+                        lines: sectionContent.split('\n'),
+                        isFromLayout: false
+                    };
+                });
 
             this.logger?.debug('Sections parsées', { 
                 fileName: file.name, 
-                sectionCount: Object.keys(sections).length 
+                sectionCount: sections.length 
             });
 
             return sections;
@@ -167,10 +332,59 @@ export class FileService {
     }
 
     /**
-     * Retourne les sections manquantes (méthode originale)
+     * Emplacement des sections d'un fichier
+     *
+     * Les positions des titres viennent du cache de métadonnées d'Obsidian ;
+     * la note n'est analysée ligne par ligne que si le cache est absent ou
+     * ne correspond plus au contenu (note modifiée pas encore réindexée).
      */
-    getMissingSections(existingSections: string[], requiredSections: string[]): string[] {
-        return requiredSections.filter(section => !existingSections.includes(section));
+    private locateRanges(file: TFile, content: string, level: number): SectionRange[] {
+        const fileCache = this.app.metadataCache.getFileCache(file);
+        if (fileCache?.headings) {
+            const blocks = fileCache.sections;
+            const ranges = SectionUtils.locateSectionsFromHeadings(
+                content, fileCache.headings, level, blocks?.[blocks.length - 1]?.position.end.offset);
+            if (ranges) return ranges;
+
+            this.logger?.debug('Cache de métadonnées périmé, analyse du texte', { fileName: file.name });
+        }
+
+        return SectionUtils.locateSections(content, level);
+    }
+
+    /**
+     * Garde une occurrence par nom de section : celle choisie pour le fichier,
+     * la première par défaut (ou si le choix ne correspond plus à la note)
+     */
+    private selectOccurrences<T extends { name: string }>(file: TFile, sections: T[]): T[] {
+        const choices = this.duplicateChoices.get(file.path);
+        const groups = new Map<string, T[]>();
+        for (const section of sections) {
+            const key = SectionMatcher.key(section.name);
+            groups.set(key, [...(groups.get(key) || []), section]);
+        }
+
+        return sections.filter(section => {
+            const key = SectionMatcher.key(section.name);
+            const group = groups.get(key)!;
+            return section === group[Math.min(choices?.get(key) ?? 0, group.length - 1)];
+        });
+    }
+
+    /**
+     * Retourne les sections manquantes
+     *
+     * Une section est présente si la note contient un titre correspondant au
+     * bloc (titre, titre localisé ou alias). Les sections manquantes sont
+     * retournées avec le titre à créer dans la langue configurée.
+     */
+    getMissingSections(existingSections: string[], requiredSections: Array<string | BoardLayout>): string[] {
+        return requiredSections
+            .map(required => typeof required === 'string'
+                ? { title: required, x: 0, y: 0, w: 0, h: 0 }
+                : required)
+            .filter(block => SectionUtils.matchSection(block, existingSections) === undefined)
+            .map(block => SectionUtils.localizedTitle(block, this.sectionLanguage));
     }
 
     // ===================================================================
@@ -181,42 +395,37 @@ export class FileService {
      * Analyse complète d'un fichier avec layout
      */
     async analyzeFile(file: TFile): Promise<FileAnalysis> {
-        const layoutName = this.getLayoutName(file);
-        if (!layoutName) {
-            throw AgileBoardError.validationError('layoutName', 'Layout agile-board manquant');
-        }
-
-        const layout = this.layoutService.getModel(layoutName);
-        if (!layout) {
-            throw AgileBoardError.layoutNotFound(layoutName);
-        }
+        const resolved = this.resolveLayout(file);
+        const layoutName = resolved.name;
+        const layout = resolved.blocks;
 
-        const sections = await this.parseSections(file);
-        const existingNames = Object.keys(sections);
+        const allSections = await this.getAllSections(file);
+        const sections = this.selectOccurrences(file, allSections);
+        const existingNames = sections.map(section => section.name);
         const requiredSections = layout.map((block: BoardLayout) => block.title);
+        const matchedSections = layout
+            .map(block => SectionUtils.matchSection(block, existingNames))
+            .filter((name): name is string => name !== undefined);
         this.logger.info('Required sections:', requiredSections);
         this.logger.info('Existing sections:', existingNames);
         return {
             file,
             layoutName,
-            existingSections: this.convertToDetailedSections(sections, requiredSections),
-            missingSections: this.getMissingSections(existingNames, requiredSections),
-            extraSections: existingNames.filter(name => !requiredSections.includes(name)),
+            existingSections: this.convertToDetailedSections(sections, matchedSections),
+            missingSections: this.getMissingSections(existingNames, layout),
+            extraSections: existingNames.filter(name => !matchedSections.includes(name)),
+            duplicateSections: this.describeDuplicates(file, allSections),
             correctOrder: requiredSections
         };
     }
 
     /**
-     * Convertit les sections simples en sections détaillées
+     * Marque les sections associées à un bloc du layout
      */
-    private convertToDetailedSections(sections: any, requiredSections: string[]): ParsedSection[] {
-        return Object.entries(sections).map(([name, content]) => ({
-            name,
-            startLine: 0, // À implémenter si nécessaire
-            endLine: 0,   // À implémenter si nécessaire
-            content: content as string,
-            lines: (content as string).split('\n'),
-            isFromLayout: requiredSections.includes(name)
+    private convertToDetailedSections(sections: ParsedSection[], requiredSections: string[]): ParsedSection[] {
+        return sections.map(section => ({
+            ...section,
+            isFromLayout: requiredSections.includes(section.name)
         }));
     }
 
@@ -232,25 +441,37 @@ export class FileService {
                 return false;
             }
 
-            const content = await this.app.vault.read(file);
-            const newContent = this.addMissingSectionsToContent(
-                content, 
-                analysis.missingSections
-            );
+            const resolved = this.resolveLayout(file);
+            const layout = resolved.blocks;
 
-            await this.app.vault.modify(file, newContent);
+            // Sections manquantes recalculées sur le contenu écrit : une
+            // section ajoutée entre-temps n'est pas créée une seconde fois
+            let addedSections: string[] = [];
+            await this.app.vault.process(file, content => {
+                const names = this.locateRanges(file, content, resolved.headingLevel).map(range => range.name);
+                const missingBlocks = layout.filter(block => SectionUtils.matchSection(block, names) === undefined);
+                addedSections = missingBlocks.map(block => SectionUtils.localizedTitle(block, this.sectionLanguage));
+
+                return SectionUtils.appendSections(
+                    content, 
+                    missingBlocks,
+                    TemplateUtils.createContext(file.basename, analysis.layoutName),
+                    this.sectionLanguage,
+                    resolved.headingLevel
+                );
+            });
             
             // Invalider le cache
             this.cache.invalidate(`sections-${file.path}`);
             
             new Notice(
-                `✅ ${analysis.missingSections.length} section(s) ajoutée(s)`, 
+                `✅ ${addedSections.length} section(s) ajoutée(s)`, 
                 3000
             );
 
             this.logger?.success('Sections manquantes créées', {
                 fileName: file.name,
-                addedSections: analysis.missingSections
+                addedSections
             });
 
             return true;
@@ -262,6 +483,43 @@ export class FileService {
         }
     }
 
+    /**
+     * Calcule la normalisation d'une note sans l'écrire
+     * (ordre du layout, sections manquantes créées à leur place)
+     */
+    async getNormalization(file: TFile): Promise<NoteNormalization> {
+        const resolved = this.resolveLayout(file);
+        const content = await this.app.vault.read(file);
+
+        return SectionUtils.normalizeNote(
+            content,
+            resolved.blocks,
+            TemplateUtils.createContext(file.basename, resolved.name),
+            this.sectionLanguage,
+            resolved.headingLevel
+        );
+    }
+
+    /**
+     * Écrit une normalisation calculée par getNormalization
+     * @throws AgileBoardError NOTE_CHANGED si la note a changé depuis le calcul
+     */
+    async applyNormalization(file: TFile, normalization: NoteNormalization): Promise<void> {
+        await this.app.vault.process(file, content => {
+            if (content !== normalization.before) {
+                throw AgileBoardError.noteChanged(file.path);
+            }
+            return normalization.after;
+        });
+        this.cache.invalidate(`sections-${file.path}`);
+
+        this.logger?.success('Note normalisée', {
+            fileName: file.name,
+            addedSections: normalization.added,
+            reordered: normalization.reordered
+        });
+    }
+
     /**
      * Crée une nouvelle note avec un layout spécifique
      */
@@ -280,7 +538,11 @@ export class FileService {
             const displayName = layoutInfo?.displayName || options.layoutName;
             
             const fileName = await this.generateFileName(displayName, options);
-            const content = this.generateNoteContent(options, layout, layoutInfo);
+            const content = this.generateNoteContent(
+                options,
+                layout,
+                TemplateUtils.createContext(fileName.replace(/\.md$/, ''), options.layoutName)
+            );
             
             // ✅ Créer ou ouvrir le fichier existant
             const file = await this.createFile(fileName, content, options.folder);
@@ -320,26 +582,345 @@ export class FileService {
         }
     }
 
+    /**
+     * Change le layout d'une note en conservant son contenu
+     *
+     * Les sections sont déplacées selon la correspondance choisie (voir
+     * SectionUtils.applyLayoutChange) ; les sections non associées restent
+     * dans la note, après celles du nouveau layout.
+     *
+     * Les sections sont lues au niveau de titre actuel de la note et écrites
+     * à celui du nouveau layout, sauf si la note fixe son propre niveau.
+     *
+     * @param file - Note à modifier
+     * @param layoutName - Nom du nouveau layout (enregistré)
+     * @param mapping - Ancienne section → bloc du nouveau layout
+     */
+    async changeLayout(file: TFile, layoutName: string, mapping: SectionMapping): Promise<void> {
+        const layout = this.layoutService.getModel(layoutName);
+        if (!layout) {
+            throw AgileBoardError.layoutNotFound(layoutName);
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const noteLevel = frontmatter?.[ParsingConstants.HEADING_LEVEL_KEY];
+        const levels = {
+            from: this.getHeadingLevel(file),
+            to: ParsingConstants.isValidHeadingLevel(noteLevel) ? noteLevel : this.layoutService.getHeadingLevel(layoutName)
+        };
+
+        try {
+            await this.app.vault.process(file, content => MigrationUtils.setNoteVersion(
+                SectionUtils.applyLayoutChange(content, layoutName, layout, mapping, this.sectionLanguage, levels),
+                this.layoutService.getLayoutVersion(layoutName)
+            ));
+            this.cache.invalidate(`sections-${file.path}`);
+
+            const displayName = this.layoutService.getLayoutDisplayName(layoutName);
+            new Notice(`✅ Layout changé pour "${displayName}"`, 3000);
+            this.logger?.success('Layout de la note changé', {
+                fileName: file.name,
+                layoutName,
+                mapping
+            });
+        } catch (error) {
+            this.logger?.error('Erreur changement de layout', error);
+            throw AgileBoardError.fileWriteError(file.path, error as Error);
+        }
+    }
+
+    // ===================================================================
+    // SECTIONS EN DOUBLE
+    // ===================================================================
+
+    /**
+     * Sections présentes plusieurs fois dans une note
+     */
+    async getDuplicateSections(file: TFile): Promise<DuplicateSection[]> {
+        return this.describeDuplicates(file, await this.getAllSections(file));
+    }
+
+    /**
+     * Choisit l'occurrence d'une section en double affichée et éditée par le
+     * board (le choix vaut pour la session ; fusionner ou renommer pour une
+     * résolution durable)
+     *
+     * @param occurrence - Index de l'occurrence, dans l'ordre de la note
+     */
+    chooseDuplicateSection(file: TFile, sectionName: string, occurrence: number): void {
+        const choices = this.duplicateChoices.get(file.path) || new Map<string, number>();
+        choices.set(SectionMatcher.key(sectionName), occurrence);
+        this.duplicateChoices.set(file.path, choices);
+        this.logger?.debug('Occurrence de section choisie', { fileName: file.name, sectionName, occurrence });
+    }
+
+    /**
+     * Fusionne toutes les occurrences d'une section dans la première
+     * (voir SectionUtils.mergeSections)
+     */
+    async mergeDuplicateSections(file: TFile, sectionName: string): Promise<void> {
+        await this.resolveDuplicate(file, sectionName, (content, occurrences) =>
+            SectionUtils.mergeSections(content, occurrences));
+
+        new Notice(`✅ Sections "${sectionName}" fusionnées`, 3000);
+    }
+
+    /**
+     * Renomme une occurrence d'une section en double
+     * @param occurrence - Index de l'occurrence, dans l'ordre de la note
+     * @param newName - Nouveau nom, absent de la note
+     * @throws AgileBoardError si le nom est vide ou déjà utilisé
+     */
+    async renameDuplicateSection(file: TFile, sectionName: string, occurrence: number, newName: string): Promise<void> {
+        const name = newName.trim();
+        const level = this.getHeadingLevel(file);
+
+        await this.resolveDuplicate(file, sectionName, (content, occurrences, ranges) => {
+            const taken = ranges.some(range => SectionMatcher.key(range.name) === SectionMatcher.key(name));
+            if (!name || taken || !occurrences[occurrence]) {
+                throw AgileBoardError.validationError('sectionName', newName);
+            }
+            return SectionUtils.renameSection(content, occurrences[occurrence], ParsingConstants.formatSectionHeader(name, level));
+        });
+
+        new Notice(`✅ Section renommée en "${name}"`, 3000);
+    }
+
+    // ===================================================================
+    // SECTIONS HORS LAYOUT
+    // ===================================================================
+
+    /**
+     * Rattache une section hors layout à un bloc du layout
+     *
+     * La section prend le titre du bloc ; si la note contient déjà la section
+     * du bloc, les deux sont fusionnées à l'emplacement de la première.
+     *
+     * @throws AgileBoardError si le bloc n'existe pas dans le layout de la note
+     */
+    async assignSectionToBlock(file: TFile, sectionName: string, blockTitle: string): Promise<void> {
+        const resolved = this.resolveLayout(file);
+        const block = resolved.blocks.find(candidate => candidate.title === blockTitle);
+        if (!block) {
+            throw AgileBoardError.validationError('blockTitle', blockTitle);
+        }
+
+        const key = SectionMatcher.key(sectionName);
+        let targetName = '';
+        await this.app.vault.process(file, content => {
+            const ranges = this.locateRanges(file, content, resolved.headingLevel);
+            const range = this.selectOccurrences(file, ranges)
+                .find(section => SectionMatcher.key(section.name) === key);
+            if (!range) {
+                throw AgileBoardError.sectionNotFound(file.path, sectionName);
+            }
+
+            targetName = SectionUtils.matchSection(block, ranges.map(section => section.name))
+                ?? SectionUtils.localizedTitle(block, this.sectionLanguage);
+            return SectionUtils.assignSection(content, range, targetName, resolved.headingLevel);
+        });
+
+        this.duplicateChoices.get(file.path)?.delete(key);
+        this.duplicateChoices.get(file.path)?.delete(SectionMatcher.key(targetName));
+        this.cache.invalidate(`sections-${file.path}`);
+
+        new Notice(`✅ Section "${sectionName}" rattachée à "${targetName}"`, 3000);
+        this.logger?.success('Section rattachée à un bloc', { fileName: file.name, sectionName, blockTitle });
+    }
+
+    /**
+     * Change le layout d'une note sans toucher à ses sections
+     * (layout dérivé du layout actuel, voir CustomLayoutService.addBlock)
+     */
+    async setNoteLayout(file: TFile, layoutName: string): Promise<void> {
+        await this.app.vault.process(file, content => {
+            const structure = SectionUtils.splitNote(content, this.getHeadingLevel(file));
+            structure.frontmatter = SectionUtils.setFrontmatterValue(structure.frontmatter, 'agile-board', layoutName);
+            return MigrationUtils.setNoteVersion(SectionUtils.renderNote(structure), this.layoutService.getLayoutVersion(layoutName));
+        });
+        this.cache.invalidate(`sections-${file.path}`);
+
+        this.logger?.success('Layout de la note changé', { fileName: file.name, layoutName });
+    }
+
+    /**
+     * Applique une résolution aux occurrences d'une section et oublie le
+     * choix d'occurrence, devenu sans objet
+     */
+    private async resolveDuplicate(
+        file: TFile,
+        sectionName: string,
+        resolve: (content: string, occurrences: SectionRange[], ranges: SectionRange[]) => string
+    ): Promise<void> {
+        const key = SectionMatcher.key(sectionName);
+        const level = this.getHeadingLevel(file);
+        const findOccurrences = (content: string) => {
+            const ranges = this.locateRanges(file, content, level);
+            return { ranges, occurrences: ranges.filter(range => SectionMatcher.key(range.name) === key) };
+        };
+
+        if (findOccurrences(await this.app.vault.read(file)).occurrences.length < 2) {
+            this.logger?.warn(`⚠️ Section "${sectionName}" sans doublon`);
+            return;
+        }
+
+        // Les occurrences sont relocalisées dans le contenu écrit : une
+        // modification faite depuis la lecture n'est pas écrasée
+        try {
+            await this.app.vault.process(file, content => {
+                const { ranges, occurrences } = findOccurrences(content);
+                if (occurrences.length < 2) {
+                    throw AgileBoardError.noteChanged(file.path);
+                }
+                return resolve(content, occurrences, ranges);
+            });
+        } catch (error) {
+            this.logger?.error('Erreur résolution de section en double', error);
+            throw error instanceof AgileBoardError ? error : AgileBoardError.fileWriteError(file.path, error as Error);
+        }
+
+        this.duplicateChoices.get(file.path)?.delete(key);
+        this.cache.invalidate(`sections-${file.path}`);
+        this.logger?.success('Section en double résolue', { fileName: file.name, sectionName });
+    }
+
+    /**
+     * Regroupe les occurrences des sections en double, avec l'occurrence choisie
+     */
+    private describeDuplicates(file: TFile, sections: ParsedSection[]): DuplicateSection[] {
+        const choices = this.duplicateChoices.get(file.path);
+        return SectionUtils.findDuplicates(sections).map(occurrences => ({
+            name: occurrences[0].name,
+            occurrences,
+            selected: Math.min(choices?.get(SectionMatcher.key(occurrences[0].name)) ?? 0, occurrences.length - 1)
+        }));
+    }
+
+    // ===================================================================
+    // MIGRATION DES NOTES
+    // ===================================================================
+
+    /**
+     * Indique si une note a été créée avec une version antérieure de son layout
+     */
+    needsMigration(file: TFile): boolean {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const layoutName = frontmatter?.['agile-board'];
+        if (typeof layoutName !== 'string' || !this.layoutService.getModel(layoutName)) {
+            return false;
+        }
+
+        return MigrationUtils.noteVersion(frontmatter) < this.layoutService.getLayoutVersion(layoutName);
+    }
+
+    /**
+     * Migre une note vers la version courante de son layout
+     *
+     * Renomme les sections selon les migrations du layout, ajoute les
+     * sections manquantes et enregistre la nouvelle version (voir
+     * MigrationUtils.migrateNote). La note n'est réécrite que si elle change.
+     *
+     * @returns Rapport des changements (error renseigné en cas d'échec)
+     */
+    async migrateNote(file: TFile): Promise<NoteMigrationReport> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const layoutName = String(frontmatter?.['agile-board'] ?? '');
+        const report: NoteMigrationReport = {
+            path: file.path,
+            layoutName,
+            fromVersion: MigrationUtils.noteVersion(frontmatter),
+            toVersion: this.layoutService.getLayoutVersion(layoutName),
+            renamed: [],
+            added: [],
+            notes: []
+        };
+
+        try {
+            const resolved = this.resolveLayout(file);
+            const migrate = (content: string) => MigrationUtils.migrateNote(content, {
+                blocks: resolved.blocks,
+                migrations: this.layoutService.getMigrations(layoutName),
+                fromVersion: report.fromVersion,
+                toVersion: report.toVersion,
+                context: TemplateUtils.createContext(file.basename, layoutName),
+                language: this.sectionLanguage,
+                headingLevel: resolved.headingLevel
+            });
+
+            // Migration recalculée sur le contenu écrit (vault.process) :
+            // une modification faite depuis la lecture n'est pas écrasée
+            const content = await this.app.vault.read(file);
+            let result = migrate(content);
+            if (result.content !== content) {
+                await this.app.vault.process(file, content => {
+                    result = migrate(content);
+                    return result.content;
+                });
+                this.cache.invalidate(`sections-${file.path}`);
+            }
+
+            this.logger?.success('Note migrée', {
+                fileName: file.name,
+                renamed: result.renamed,
+                added: result.added
+            });
+            return { ...report, renamed: result.renamed, added: result.added, notes: result.notes };
+        } catch (error) {
+            this.logger?.error('Erreur migration de note', error);
+            return { ...report, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Migre toutes les notes du vault dont le layout a changé de version
+     * @returns Un rapport par note concernée
+     */
+    async migrateNotes(): Promise<NoteMigrationReport[]> {
+        const reports: NoteMigrationReport[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (this.needsMigration(file)) {
+                reports.push(await this.migrateNote(file));
+            }
+        }
+
+        return reports;
+    }
+
     // ===================================================================
     // MÉTHODES UTILITAIRES PRIVÉES
     // ===================================================================
 
-    private getLayoutName(file: TFile): string | null {
+    /**
+     * Résout le layout d'une note (layout enregistré ou grille inline)
+     * @throws AgileBoardError si le frontmatter est absent, inconnu ou invalide
+     */
+    resolveLayout(file: TFile): ResolvedLayout {
         const fileCache = this.app.metadataCache.getFileCache(file);
-        return fileCache?.frontmatter?.['agile-board'] || null;
-    }
+        const value = fileCache?.frontmatter?.['agile-board'];
+        if (!value) {
+            throw AgileBoardError.validationError('layoutName', 'Layout agile-board manquant');
+        }
 
-    private addMissingSectionsToContent(content: string, missingSections: string[]): string {
-        const lines = content.split('\n');
-        const newSections = missingSections.map(sectionName => [
-            '',
-            ParsingConstants.formatSectionHeader(sectionName), // <-- dynamique !
-            '',
-            '',
-            ''
-        ]).flat();
+        const resolved = this.layoutService.resolveLayout(value, file.path, fileCache?.frontmatter);
+        if (!resolved) {
+            throw typeof value === 'string'
+                ? AgileBoardError.layoutNotFound(value)
+                : AgileBoardError.validationError('agile-board', 'Grille inline invalide');
+        }
 
-        return [...lines, ...newSections].join('\n');
+        return resolved;
+    }
+
+    /**
+     * Niveau de titre des sections d'une note (2 si son layout ne se résout pas)
+     */
+    getHeadingLevel(file: TFile): number {
+        try {
+            return this.resolveLayout(file).headingLevel;
+        } catch {
+            return ParsingConstants.SECTION_HEADER_LEVEL;
+        }
     }
 
     private validateNoteCreationOptions(options: NoteCreationOptions): void {
@@ -380,24 +961,38 @@ export class FileService {
         return timestampFileName;
     }
 
+    /**
+     * Contenu d'une nouvelle note : frontmatter puis une section par bloc,
+     * remplie avec le contenu fourni ou, à défaut, le contenu initial du bloc
+     */
     private generateNoteContent(
         options: NoteCreationOptions,
         layout: BoardLayout[],
-        layoutInfo: any
+        context: TemplateContext
     ): string {
+        const level = this.layoutService.getHeadingLevel(options.layoutName);
         const sections = layout.map(block => {
-            const customContent = options.customContent?.[block.title] || '';
+            const customContent = options.customContent?.[block.title]
+                ?? (block.content ? TemplateUtils.render(block.content, context) : '');
             return [
-                ParsingConstants.formatSectionHeader(block.title), // Utilisation dynamique du niveau
+                ParsingConstants.formatSectionHeader(SectionUtils.localizedTitle(block, this.sectionLanguage), level),
                 '',
-                customContent || '',
+                customContent,
                 ''
             ].join('\n');
         });
 
+        // Layout générateur : paramètre écrit avec ses valeurs par défaut, à éditer
+        const generator = this.layoutService.getGenerator(options.layoutName);
+        const parameter = generator
+            ? [`${generator.parameter}: [${generator.defaults.map(value => JSON.stringify(value)).join(', ')}]`]
+            : [];
+
         return [
             '---',
             `agile-board: ${options.layoutName}`,
+            `${MigrationUtils.VERSION_KEY}: ${this.layoutService.getLayoutVersion(options.layoutName)}`,
+            ...parameter,
             '---',
             '',
             ...sections
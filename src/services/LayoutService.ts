@@ -14,7 +14,8 @@
  * - Fournir des métadonnées enrichies pour l'interface utilisateur
  * 
  * CONCEPTS DE GRILLE :
- * Chaque layout est une grille de 24 colonnes × 100 lignes maximum.
+ * Chaque layout est une grille de 24 colonnes × 100 lignes maximum, sauf
+ * s'il déclare ses propres dimensions ("grid", ex: 12 colonnes).
  * Les blocs sont des rectangles définis par (x, y, largeur, hauteur).
  * Aucun chevauchement n'est autorisé entre les blocs.
  * 
@@ -33,12 +34,40 @@
 import { Plugin } from 'obsidian';
 
 // Import des types personnalisés depuis notre fichier de types
-import { BoardLayout, LayoutInfo } from '../types';
+import {
+  BlockIssue,
+  BoardLayout,
+  CustomLayoutDefinition,
+  GridSize,
+  LayoutBreakpoint,
+  LayoutGenerator,
+  LayoutInfo,
+  LayoutIssueCode,
+  LayoutMigration,
+  LayoutValidationIssue,
+  LayoutValidationReport,
+  ResolvedLayout
+} from '../types';
 
 // Import des layouts et métadonnées prédéfinis
 import { BUILT_IN_LAYOUTS, LAYOUT_INFO } from '../constants/layouts';
+import { LAYOUT_GENERATORS } from '../constants/generators';
+import { LAYOUT_MIGRATIONS } from '../constants/migrations';
 import AgileBoardPlugin from '../main';
 import { LoggerService } from './LoggerService';
+import { ThumbnailUtils } from '../utils/thumbnail';
+import { GeneratorUtils } from '../utils/generators';
+import { MigrationUtils } from '../utils/migration';
+import { BlockOptionsConstants } from '../constants/blockOptions';
+import { AgileBoardError } from '../errors/AgileBoardError';
+import { ParsingConstants } from '../constants/parsing';
+import { SectionMatcher } from '../utils/matcher';
+
+/**
+ * Partie d'une définition concernée par l'héritage
+ * (commune aux layouts personnalisés et aux grilles inline)
+ */
+type ExtendableLayout = Pick<CustomLayoutDefinition, 'blocks' | 'extends' | 'remove' | 'grid' | 'breakpoints' | 'headingLevel'>;
 
 // =============================================================================
 // CLASSE PRINCIPALE DU SERVICE
@@ -77,6 +106,59 @@ export class LayoutService {
    * - V = BoardLayout[] (array de blocs)
    */
   private models = new Map<string, BoardLayout[]>();
+
+  /**
+   * Définitions des layouts utilisateur (fichiers du dossier de layouts)
+   * 
+   * Conservées séparément des modèles validés pour pouvoir être
+   * rechargées à chaud sans relire les layouts intégrés.
+   */
+  private customLayouts = new Map<string, CustomLayoutDefinition>();
+
+  /**
+   * Rapports de validation du dernier chargement (layouts valides ET rejetés)
+   * 
+   * Permettent d'expliquer à l'auteur d'un layout pourquoi il n'apparaît pas.
+   */
+  private reports = new Map<string, LayoutValidationReport>();
+
+  /**
+   * Cache des miniatures SVG, générées à la première demande
+   * 
+   * Vidé à chaque chargement : un layout personnalisé modifié
+   * obtient ainsi une nouvelle miniature.
+   */
+  private thumbnails = new Map<string, string>();
+
+  /**
+   * Dimensions des layouts dont la grille n'est pas celle par défaut
+   */
+  private grids = new Map<string, GridSize>();
+
+  /**
+   * Variantes pour vues étroites des layouts qui en déclarent
+   */
+  private breakpoints = new Map<string, LayoutBreakpoint[]>();
+
+  /**
+   * Niveau de titre des sections des layouts qui n'utilisent pas ##
+   */
+  private headingLevels = new Map<string, number>();
+
+  /**
+   * Taille minimale d'un bloc : largeur et hauteur doivent la DÉPASSER
+   */
+  private static readonly MIN_SIZE = 2;
+
+  /**
+   * Grille par défaut : 24 colonnes (standard responsive web) × 100 lignes
+   */
+  static readonly DEFAULT_GRID: GridSize = { columns: 24, rows: 100 };
+
+  /**
+   * Dimensions maximales déclarables par un layout
+   */
+  private static readonly MAX_GRID: GridSize = { columns: 96, rows: 1000 };
   
   /**
    * CONSTRUCTEUR avec injection de dépendance
@@ -117,6 +199,7 @@ export class LayoutService {
    * GESTION D'ERREURS :
    * Les layouts invalides sont ignorés mais loggés.
    * Le plugin continue de fonctionner avec les layouts valides.
+   * Un layout personnalisé dont la lecture lève une erreur est écarté seul.
    * 
    * VALIDATION GÉOMÉTRIQUE :
    * - Vérification des limites de grille
@@ -134,6 +217,11 @@ export class LayoutService {
     // ÉTAPE 1 : Nettoyer le cache existant
     // Important pour les rechargements du plugin
     this.models.clear();
+    this.reports.clear();
+    this.thumbnails.clear();
+    this.grids.clear();
+    this.breakpoints.clear();
+    this.headingLevels.clear();
     let loadedCount = 0;
 
     // ÉTAPE 2 : Itérer sur tous les layouts prédéfinis
@@ -141,8 +229,10 @@ export class LayoutService {
     for (const [name, layout] of Object.entries(BUILT_IN_LAYOUTS)) {
       console.log(`🔍 Chargement du layout "${name}"...`);
       
-      // ÉTAPE 3 : Valider le layout
-      if (this.validateModel(name, layout)) {
+      // ÉTAPE 3 : Valider le layout (rapport conservé pour le diagnostic)
+      const report = this.validateModel(name, layout);
+      this.reports.set(name, report);
+      if (report.valid) {
         // LAYOUT VALIDE : l'ajouter au registre
         this.models.set(name, layout);
         loadedCount++;
@@ -153,67 +243,543 @@ export class LayoutService {
       }
     }
 
-    // ÉTAPE 4 : Logger le résumé
+    // ÉTAPE 3 bis : Layouts générateurs, enregistrés avec leurs valeurs par défaut
+    for (const [name, generator] of Object.entries(LAYOUT_GENERATORS)) {
+      const blocks = generator.generate(generator.defaults);
+      const report = this.validateModel(name, blocks);
+      this.reports.set(name, report);
+      if (report.valid) {
+        this.models.set(name, blocks);
+        loadedCount++;
+        console.log(`✅ Layout générateur "${name}" chargé (paramètre "${generator.parameter}")`);
+      } else {
+        console.warn(`❌ Modèle "${name}" invalide`);
+      }
+    }
+
+    // ÉTAPE 4 : Ajouter les layouts utilisateur
+    loadedCount += this.loadCustomLayouts();
+
+    // ÉTAPE 5 : Logger le résumé
     console.log(`📐 ${loadedCount} layouts chargés`);
     this.logAvailableLayouts();
   }
 
   /**
-   * Valide complètement un layout (géométrie + cohérence)
+   * Enregistre les layouts utilisateur validés dans le registre
+   * 
+   * RÈGLES :
+   * - Même validation géométrique que les layouts intégrés
+   * - Un layout utilisateur ne peut pas remplacer un layout intégré
+   * 
+   * @returns number - Nombre de layouts utilisateur chargés
+   */
+  private loadCustomLayouts(): number {
+    let loadedCount = 0;
+
+    for (const [name, definition] of this.customLayouts) {
+      if (BUILT_IN_LAYOUTS[name] || LAYOUT_GENERATORS[name]) {
+        console.warn(`❌ Layout "${name}" (${definition.source}) ignoré : nom réservé par un layout intégré`);
+        this.reports.set(name, this.definitionErrorReport(name, definition.source,
+          'Nom réservé par un layout intégré'));
+        continue;
+      }
+
+      // Une définition inattendue ne doit écarter que son propre layout
+      let blocks: BoardLayout[];
+      let grid: GridSize;
+      let report: LayoutValidationReport;
+      try {
+        blocks = this.flattenLayout(definition, [name]);
+        grid = this.flattenGrid(definition);
+        report = this.validateBreakpoints(
+          this.validateModel(name, blocks, definition.source, grid), blocks, definition.breakpoints, grid);
+      } catch (error) {
+        console.warn(`❌ Layout personnalisé "${name}" ignoré : ${(error as Error).message}`);
+        this.reports.set(name, this.definitionErrorReport(name, definition.source, (error as Error).message));
+        continue;
+      }
+
+      this.reports.set(name, report);
+      if (report.valid) {
+        this.models.set(name, blocks);
+        this.grids.set(name, grid);
+        if (definition.breakpoints?.length) {
+          this.breakpoints.set(name, definition.breakpoints);
+        }
+        const headingLevel = this.flattenHeadingLevel(definition);
+        if (headingLevel !== ParsingConstants.SECTION_HEADER_LEVEL) {
+          this.headingLevels.set(name, headingLevel);
+        }
+        loadedCount++;
+        console.log(`✅ Layout personnalisé "${name}" chargé (${blocks.length} blocs)`);
+      } else {
+        console.warn(`❌ Layout personnalisé "${name}" invalide (${definition.source})`);
+      }
+    }
+
+    return loadedCount;
+  }
+
+  /**
+   * Aplatit la chaîne d'héritage d'un layout ("extends")
+   * 
+   * ALGORITHME :
+   * 1. Sans parent : les blocs sont retournés tels quels
+   * 2. Résoudre récursivement le parent (intégré ou personnalisé)
+   * 3. Retirer les blocs du parent listés dans "remove"
+   * 4. Fusionner les blocs de l'enfant :
+   *    - même titre qu'un bloc du parent (au sens de SectionMatcher, comme
+   *      les sections des notes) → repositionnement (fusion des propriétés)
+   *    - nouveau titre → ajout
+   * 
+   * DÉTECTION DES CYCLES :
+   * La chaîne des layouts déjà traversés est transmise à chaque niveau.
+   * Retomber sur un layout de la chaîne signifie un cycle.
+   * 
+   * La géométrie n'est PAS vérifiée ici : le résultat aplati passe ensuite
+   * par validateModel comme n'importe quel layout.
+   * 
+   * @param layout - Définition à aplatir
+   * @param chain - Layouts déjà traversés (le premier est le layout demandé)
+   * @returns BoardLayout[] - Blocs aplatis
+   * @throws AgileBoardError si un parent est introuvable ou en cas de cycle
+   * 
+   * @example
+   * flattenLayout({
+   *   extends: "layout_kanban",
+   *   remove: ["Terminé"],
+   *   blocks: [{ title: "Review", x: 16, y: 0, w: 8, h: 24 }]
+   * }, ["layout_kanban_review"]);
+   * // → À faire, En cours, Review
+   */
+  private flattenLayout(layout: ExtendableLayout, chain: string[]): BoardLayout[] {
+    const ownBlocks = Array.isArray(layout.blocks) ? layout.blocks : [];
+    if (!layout.extends) {
+      return ownBlocks;
+    }
+
+    const parentName = layout.extends;
+    if (chain.includes(parentName)) {
+      throw AgileBoardError.layoutInheritanceCycle([...chain, parentName]);
+    }
+
+    // Titres comparés comme les sections des notes (voir SectionMatcher)
+    const titleKey = (title: unknown) => typeof title === 'string' ? SectionMatcher.key(title) : undefined;
+    const parentBlocks = this.getParentBlocks(parentName, [...chain, parentName]);
+    const removed = new Set((layout.remove || []).map(titleKey));
+    const blocks = parentBlocks
+      .filter(block => !removed.has(titleKey(block.title)))
+      .map(block => ({ ...block }));
+
+    for (const block of ownBlocks) {
+      const key = titleKey(block?.title);
+      const index = key === undefined ? -1 : blocks.findIndex(existing => titleKey(existing.title) === key);
+      if (index >= 0) {
+        blocks[index] = { ...blocks[index], ...block };
+      } else {
+        blocks.push(block);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Dimensions de grille d'une définition : les siennes, sinon celles du parent
+   * 
+   * À appeler après flattenLayout, qui a déjà écarté les cycles d'héritage.
+   * 
+   * @example
+   * flattenGrid({ extends: "layout_dense", grid: { rows: 200 }, blocks: [] });
+   * // colonnes du parent, 200 lignes
+   */
+  private flattenGrid(layout: ExtendableLayout): GridSize {
+    const parentDefinition = layout.extends ? this.customLayouts.get(layout.extends) : undefined;
+    const parent = parentDefinition
+      ? this.flattenGrid(parentDefinition)
+      : layout.extends ? this.getGrid(layout.extends) : LayoutService.DEFAULT_GRID;
+
+    return { ...parent, ...(layout.grid && typeof layout.grid === 'object' ? layout.grid : {}) };
+  }
+
+  /**
+   * Niveau de titre des sections d'une définition : le sien, sinon celui du parent
+   * 
+   * Comme flattenGrid, à appeler après flattenLayout (cycles déjà écartés).
+   */
+  private flattenHeadingLevel(layout: ExtendableLayout): number {
+    if (ParsingConstants.isValidHeadingLevel(layout.headingLevel)) {
+      return layout.headingLevel;
+    }
+
+    const parentDefinition = layout.extends ? this.customLayouts.get(layout.extends) : undefined;
+    return parentDefinition
+      ? this.flattenHeadingLevel(parentDefinition)
+      : layout.extends ? this.getHeadingLevel(layout.extends) : ParsingConstants.SECTION_HEADER_LEVEL;
+  }
+
+  /**
+   * Retourne les blocs aplatis d'un layout parent
+   */
+  private getParentBlocks(parentName: string, chain: string[]): BoardLayout[] {
+    if (BUILT_IN_LAYOUTS[parentName]) {
+      return BUILT_IN_LAYOUTS[parentName];
+    }
+
+    const generator = LAYOUT_GENERATORS[parentName];
+    if (generator) {
+      return generator.generate(generator.defaults);
+    }
+
+    const parent = this.customLayouts.get(parentName);
+    if (!parent) {
+      throw AgileBoardError.layoutNotFound(parentName);
+    }
+
+    return this.flattenLayout(parent, chain);
+  }
+
+  /**
+   * Remplace l'ensemble des layouts utilisateur et recharge le registre
+   * 
+   * Appelée par CustomLayoutService à chaque (re)lecture du dossier de layouts.
+   * 
+   * @param definitions - Définitions lues depuis les fichiers du vault
+   */
+  setCustomLayouts(definitions: CustomLayoutDefinition[]): void {
+    this.customLayouts.clear();
+    for (const definition of definitions) {
+      if (this.customLayouts.has(definition.name)) {
+        console.warn(`❌ Layout "${definition.name}" défini plusieurs fois, "${definition.source}" ignoré`);
+        continue;
+      }
+      this.customLayouts.set(definition.name, definition);
+    }
+
+    this.load();
+  }
+
+  /**
+   * Définition telle que lue dans le dossier de layouts utilisateur
+   * (blocs propres, avant héritage)
+   */
+  getCustomDefinition(name: string): CustomLayoutDefinition | undefined {
+    return this.customLayouts.get(name);
+  }
+
+  /**
+   * Indique si un layout provient du dossier de layouts utilisateur
+   */
+  isCustomLayout(name: string): boolean {
+    return this.customLayouts.has(name) && this.models.has(name);
+  }
+
+  /**
+   * Valide complètement un layout (géométrie + cohérence) et produit un rapport
    * 
    * VALIDATION EN PLUSIEURS ÉTAPES :
-   * 1. Validation individuelle de chaque bloc
-   * 2. Vérification des limites de grille
-   * 3. Détection des chevauchements
-   * 4. Création d'une grille de test pour simulation
+   * 1. Validation individuelle de chaque bloc (types de données)
+   * 2. Vérification de la taille minimale (MIN_SIZE)
+   * 3. Vérification des limites de grille
+   * 4. Détection des chevauchements
+   * 5. Avertissements : titres en double, zones de grille inutilisées
    * 
    * ALGORITHME DE CHEVAUCHEMENT :
-   * - Créer une grille booléenne 24×100
+   * - Créer une grille colonnes × lignes mémorisant l'index du bloc propriétaire
    * - Pour chaque bloc, marquer ses cellules
-   * - Si une cellule est déjà marquée = chevauchement
+   * - Si une cellule est déjà marquée = chevauchement, la première cellule
+   *   en conflit et le bloc rencontré sont reportés
+   * 
+   * ERREURS vs AVERTISSEMENTS :
+   * Seules les erreurs rendent le layout invalide. Les avertissements
+   * signalent une maladresse probable sans empêcher le chargement.
    * 
-   * @param name - Nom du layout (pour les logs d'erreur)
+   * @param name - Nom du layout (pour le rapport et les logs)
    * @param layout - Array de blocs à valider
-   * @returns boolean - true si le layout est entièrement valide
+   * @param source - Fichier d'origine pour les layouts personnalisés
+   * @param grid - Dimensions de la grille du layout (24 × 100 par défaut)
+   * @returns LayoutValidationReport - valid à true si aucune erreur
    * 
    * @example
-   * const isValid = layoutService.validateModel("test", [
+   * const report = layoutService.validateModel("test", [
    *   { title: "Block 1", x: 0, y: 0, w: 12, h: 12 },
-   *   { title: "Block 2", x: 12, y: 0, w: 12, h: 12 }
+   *   { title: "Block 2", x: 6, y: 0, w: 12, h: 12 }
    * ]);
-   * // true si pas de chevauchement, false sinon
+   * // report.valid === false
+   * // report.errors[0] : { code: 'overlap', blockTitle: 'Block 2',
+   * //                      cell: { x: 6, y: 0 }, overlapsWith: 'Block 1', ... }
    */
-  private validateModel(name: string, layout: BoardLayout[]): boolean {
-    // ÉTAPE 1 : Créer une grille de test pour détecter les chevauchements
-    // Array.from() avec callback pour créer une grille 2D
-    // 24 colonnes × 100 lignes, initialisées à false
-    const grid = Array.from({ length: 24 }, () => Array(100).fill(false));
-    let isValid = true;
+  validateModel(
+    name: string,
+    layout: BoardLayout[],
+    source?: string,
+    grid: GridSize = LayoutService.DEFAULT_GRID
+  ): LayoutValidationReport {
+    const errors: LayoutValidationIssue[] = [];
+    const warnings: LayoutValidationIssue[] = [];
+    const MIN_SIZE = LayoutService.MIN_SIZE;
+
+    if (!this.isValidGrid(grid)) {
+      const { columns, rows } = LayoutService.MAX_GRID;
+      errors.push({
+        severity: 'error',
+        code: 'invalid-grid',
+        message: `Grille ${grid.columns}×${grid.rows} invalide : colonnes et lignes doivent être des entiers ` +
+          `entre ${MIN_SIZE + 1} et ${columns} (colonnes) / ${rows} (lignes)`
+      });
+      return this.finalizeReport(name, source, errors, warnings);
+    }
+
+    if (!Array.isArray(layout) || layout.length === 0) {
+      errors.push({ severity: 'error', code: 'empty', message: 'Le layout ne contient aucun bloc' });
+      return this.finalizeReport(name, source, errors, warnings);
+    }
+
+    // ÉTAPE 1 : Grille de test mémorisant le bloc propriétaire de chaque cellule
+    // colonnes × lignes, initialisées à undefined
+    const owners: (number | undefined)[][] = Array.from({ length: grid.columns }, () => Array(grid.rows).fill(undefined));
+    const titles = new Map<string, number>();
+    let coveredCells = 0;
+    let bottom = 0;
 
     // ÉTAPE 2 : Valider chaque bloc individuellement
-    for (const block of layout) {
+    layout.forEach((block, index) => {
+      const blockTitle = typeof block?.title === 'string' ? block.title : undefined;
+      const blockIssue = (severity: 'error' | 'warning', code: LayoutIssueCode, message: string,
+        extra: Partial<LayoutValidationIssue> = {}) => {
+        const issue: LayoutValidationIssue = {
+          severity,
+          code,
+          message: `Bloc ${index + 1}${blockTitle ? ` "${blockTitle}"` : ''} : ${message}`,
+          blockIndex: index,
+          blockTitle,
+          ...extra
+        };
+        (severity === 'error' ? errors : warnings).push(issue);
+      };
+
       // VALIDATION 2.1 : Structure et types de données
-      if (!this.isValidBlock(block)) {
-        console.warn(`❌ [${name}] Bloc invalide :`, block);
-        isValid = false;
-        continue;  // Passer au bloc suivant
+      if (!block || typeof block !== 'object' || !this.isValidBlock(block)) {
+        blockIssue('error', 'invalid-type',
+          'title doit être un texte, x et y des entiers positifs ou nuls, w et h des entiers positifs');
+        return;  // Passer au bloc suivant
       }
 
-      // VALIDATION 2.2 : Limites de grille
-      if (!this.isBlockInBounds(block)) {
-        console.warn(`❌ [${name}] Bloc hors limites :`, block);
-        isValid = false;
-        continue;
+      // VALIDATION 2.1 bis : Titres alternatifs (optionnels)
+      const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+      if ((block.aliases !== undefined && !isStringList(block.aliases)) ||
+          (block.titles !== undefined && (typeof block.titles !== 'object' || !isStringList(Object.values(block.titles))))) {
+        blockIssue('error', 'invalid-type', 'aliases doit être une liste de textes et titles un objet langue → texte');
+        return;
+      }
+
+      // VALIDATION 2.1 ter : Contenu initial (optionnel)
+      if (block.content !== undefined && typeof block.content !== 'string') {
+        blockIssue('error', 'invalid-type', 'content doit être un texte');
+        return;
+      }
+
+      // VALIDATION 2.1 quater : Options d'affichage (metadata)
+      if (block.metadata !== undefined) {
+        this.validateBlockOptions(block.metadata, blockIssue);
+      }
+
+      // VALIDATION 2.2 : Taille minimale
+      if (block.w <= MIN_SIZE || block.h <= MIN_SIZE) {
+        blockIssue('error', 'too-small',
+          `taille ${block.w}×${block.h}, minimum ${MIN_SIZE + 1}×${MIN_SIZE + 1}`);
+        return;
+      }
+
+      // VALIDATION 2.3 : Limites de grille
+      if (!this.isBlockInBounds(block, grid)) {
+        blockIssue('error', 'out-of-bounds',
+          `position (${block.x}, ${block.y}) taille ${block.w}×${block.h} hors de la grille ${grid.columns}×${grid.rows}`);
+        return;
+      }
+
+      // AVERTISSEMENT : titres en double (une seule section sera associée)
+      const titleKey = SectionMatcher.key(block.title);
+      if (titles.has(titleKey)) {
+        blockIssue('warning', 'duplicate-title', `titre déjà utilisé par le bloc ${titles.get(titleKey)! + 1}`);
+      } else {
+        titles.set(titleKey, index);
+      }
+
+      // VALIDATION 2.4 : Chevauchements
+      let conflict: { x: number; y: number; owner: number } | undefined;
+      for (let x = block.x; x < block.x + block.w; x++) {
+        for (let y = block.y; y < block.y + block.h; y++) {
+          const owner = owners[x][y];
+          if (owner === undefined) {
+            owners[x][y] = index;
+            coveredCells++;
+          } else if (!conflict) {
+            conflict = { x, y, owner };
+          }
+        }
+      }
+
+      if (conflict) {
+        const other = layout[conflict.owner].title;
+        blockIssue('error', 'overlap', `chevauche "${other}" en (${conflict.x}, ${conflict.y})`, {
+          cell: { x: conflict.x, y: conflict.y },
+          overlapsWith: other
+        });
       }
 
-      // VALIDATION 2.3 : Chevauchements
-      if (!this.checkOverlap(grid, block, name)) {
-        isValid = false;
-        // Continue pour trouver tous les chevauchements
+      bottom = Math.max(bottom, block.y + block.h);
+    });
+
+    // ÉTAPE 3 : Zones inutilisées entre le haut de la grille et le bloc le plus bas
+    if (errors.length === 0 && bottom > 0) {
+      const totalCells = grid.columns * bottom;
+      const unusedCells = totalCells - coveredCells;
+      if (unusedCells > 0) {
+        warnings.push({
+          severity: 'warning',
+          code: 'unused-area',
+          message: `${unusedCells} cellule(s) sur ${totalCells} non couvertes ` +
+            `(${Math.round((unusedCells / totalCells) * 100)} % de la zone utilisée)`
+        });
       }
     }
 
-    return isValid;
+    return this.finalizeReport(name, source, errors, warnings);
+  }
+
+  /**
+   * Vérifie les options d'affichage d'un bloc (BoardLayout.metadata)
+   * 
+   * RÈGLES :
+   * - metadata doit être un objet
+   * - chaque option connue doit avoir le type du schéma (BlockOptionsConstants)
+   * - color : couleur du thème ou hexadécimale
+   * - les options inconnues sont signalées en avertissement et ignorées
+   * - collapsed sans barre de titre (hideTitle) ne pourrait jamais être déplié
+   * 
+   * @param metadata - Valeur brute de block.metadata
+   * @param report - Callback d'ajout d'un problème sur le bloc
+   */
+  private validateBlockOptions(
+    metadata: unknown,
+    report: (severity: 'error' | 'warning', code: LayoutIssueCode, message: string) => void
+  ): void {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      report('error', 'invalid-option', 'metadata doit être un objet d\'options');
+      return;
+    }
+
+    const options = metadata as Record<string, unknown>;
+    const types = BlockOptionsConstants.OPTION_TYPES as Record<string, string>;
+
+    for (const [key, value] of Object.entries(options)) {
+      if (!types[key]) {
+        report('warning', 'unknown-option', `option "${key}" inconnue, ignorée`);
+      } else if (typeof value !== types[key]) {
+        report('error', 'invalid-option', `option "${key}" doit être de type ${types[key]}`);
+      }
+    }
+
+    if (typeof options.color === 'string' && !BlockOptionsConstants.isValidColor(options.color)) {
+      report('error', 'invalid-option',
+        `couleur "${options.color}" invalide (${BlockOptionsConstants.THEME_COLORS.join(', ')} ou #rrggbb)`);
+    }
+
+    if (options.collapsed === true && options.hideTitle === true) {
+      report('warning', 'invalid-option', 'collapsed est ignoré quand hideTitle est actif');
+    }
+  }
+
+  /**
+   * Assemble le rapport et reporte les erreurs dans la console
+   */
+  private finalizeReport(
+    name: string,
+    source: string | undefined,
+    errors: LayoutValidationIssue[],
+    warnings: LayoutValidationIssue[]
+  ): LayoutValidationReport {
+    errors.forEach(error => console.warn(`❌ [${name}] ${error.message}`));
+    return { name, source, valid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Complète le rapport d'un layout avec la validation de ses variantes
+   * 
+   * RÈGLES :
+   * - maxWidth : largeur positive, unique parmi les variantes
+   * - blocks : validés comme un layout, sur la grille de la variante
+   *   (colonnes de la variante, lignes du layout)
+   * - un bloc de variante doit reprendre le titre d'un bloc du layout
+   * 
+   * @param report - Rapport de validation du layout
+   * @param blocks - Blocs du layout
+   * @param breakpoints - Variantes déclarées (valeur brute)
+   * @param grid - Dimensions de la grille du layout
+   * @returns LayoutValidationReport - Rapport complété (invalide si une variante l'est)
+   */
+  private validateBreakpoints(
+    report: LayoutValidationReport,
+    blocks: BoardLayout[],
+    breakpoints: unknown,
+    grid: GridSize
+  ): LayoutValidationReport {
+    if (breakpoints === undefined || !report.valid) return report;
+
+    const errors: LayoutValidationIssue[] = [];
+    const breakpointError = (message: string) =>
+      errors.push({ severity: 'error', code: 'invalid-breakpoint', message });
+
+    if (!Array.isArray(breakpoints)) {
+      breakpointError('breakpoints doit être une liste de variantes');
+      return this.finalizeReport(report.name, report.source, [...report.errors, ...errors], report.warnings);
+    }
+
+    const titles = new Set(blocks.map(block => SectionMatcher.key(block.title)));
+    const widths = new Set<number>();
+    breakpoints.forEach((breakpoint: LayoutBreakpoint, index) => {
+      const label = `Variante ${index + 1}`;
+      if (!breakpoint || typeof breakpoint !== 'object' ||
+          typeof breakpoint.maxWidth !== 'number' || breakpoint.maxWidth <= 0 || !Array.isArray(breakpoint.blocks)) {
+        breakpointError(`${label} : maxWidth (nombre positif) et blocks (liste) sont requis`);
+        return;
+      }
+      if (widths.has(breakpoint.maxWidth)) {
+        breakpointError(`${label} : maxWidth ${breakpoint.maxWidth} déjà utilisé par une autre variante`);
+        return;
+      }
+      widths.add(breakpoint.maxWidth);
+
+      const variantGrid = { columns: breakpoint.columns ?? grid.columns, rows: grid.rows };
+      const variantReport = this.validateModel(
+        `${report.name}@${breakpoint.maxWidth}`, breakpoint.blocks, report.source, variantGrid);
+      variantReport.errors.forEach(error =>
+        breakpointError(`${label} (≤ ${breakpoint.maxWidth}px) : ${error.message}`));
+
+      breakpoint.blocks
+        .filter(block => typeof block?.title === 'string' && !titles.has(SectionMatcher.key(block.title)))
+        .forEach(block => breakpointError(`${label} : le bloc "${block.title}" n'existe pas dans le layout`));
+    });
+
+    return errors.length > 0
+      ? this.finalizeReport(report.name, report.source, [...report.errors, ...errors], report.warnings)
+      : report;
+  }
+
+  /**
+   * Rapport d'un layout rejeté avant l'analyse de ses blocs
+   * (nom réservé, parent introuvable, héritage cyclique...)
+   */
+  private definitionErrorReport(name: string, source: string | undefined, message: string): LayoutValidationReport {
+    return {
+      name,
+      source,
+      valid: false,
+      errors: [{ severity: 'error', code: 'definition', message }],
+      warnings: []
+    };
   }
 
   /**
@@ -225,8 +791,10 @@ export class LayoutService {
    * 
    * VÉRIFICATIONS :
    * - Présence de toutes les propriétés requises
-   * - Types corrects (string pour title, number pour les autres)
-   * - Pas de vérification des valeurs (fait dans isBlockInBounds)
+   * - Types corrects (string pour title, entiers pour les autres :
+   *   x, y ≥ 0 et w, h ≥ 1, sans quoi la grille d'occupation serait
+   *   indexée hors de ses cases)
+   * - Pas de vérification des limites (fait dans isBlockInBounds)
    * 
    * @param block - Objet à vérifier (type any pour flexibilité)
    * @returns block is BoardLayout - Type guard TypeScript
@@ -239,12 +807,13 @@ export class LayoutService {
    * }
    */
   private isValidBlock(block: any): block is BoardLayout {
+    const isInteger = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
     return (
       typeof block.title === 'string' &&    // Titre doit être une chaîne
-      typeof block.x === 'number' &&        // Position X doit être un nombre
-      typeof block.y === 'number' &&        // Position Y doit être un nombre
-      typeof block.w === 'number' &&        // Largeur doit être un nombre
-      typeof block.h === 'number'           // Hauteur doit être un nombre
+      isInteger(block.x, 0) &&              // Position X entière, positive ou nulle
+      isInteger(block.y, 0) &&              // Position Y entière, positive ou nulle
+      isInteger(block.w, 1) &&              // Largeur entière positive
+      isInteger(block.h, 1)                 // Hauteur entière positive
     );
   }
 
@@ -252,76 +821,97 @@ export class LayoutService {
    * Vérifie qu'un bloc respecte les limites de la grille
    * 
    * CONTRAINTES DE GRILLE :
+   * - x, y, w, h entiers : une position fractionnaire ne tombe sur aucune cellule
    * - x >= 0 : pas de position négative
    * - y >= 0 : pas de position négative
    * - w > 0 : largeur positive
    * - h > 0 : hauteur positive
-   * - x + w <= 24 : ne déborde pas à droite
-   * - y + h <= 100 : ne déborde pas en bas
+   * - x + w <= colonnes : ne déborde pas à droite
+   * - y + h <= lignes : ne déborde pas en bas
    * 
    * @param block - Bloc à vérifier (déjà validé par isValidBlock)
+   * @param grid - Dimensions de la grille (24 × 100 par défaut)
    * @returns boolean - true si dans les limites
    * 
    * @example
    * isBlockInBounds({ title: "Test", x: 20, y: 0, w: 5, h: 10 });
    * // false car x(20) + w(5) = 25 > 24 (déborde à droite)
    */
-  private isBlockInBounds(block: BoardLayout): boolean {
-    const MIN_SIZE = 2; // Taille minimale viable
+  isBlockInBounds(block: BoardLayout, grid: GridSize = LayoutService.DEFAULT_GRID): boolean {
+    const MIN_SIZE = LayoutService.MIN_SIZE; // Taille minimale viable
     return (
+      [block.x, block.y, block.w, block.h].every(Number.isInteger) &&
       block.x >= 0 &&                    // Position X positive
       block.y >= 0 &&                    // Position Y positive
       block.w > MIN_SIZE &&              // Largeur positive
       block.h > MIN_SIZE &&              // Hauteur positive
-      block.x + block.w <= 24 &&         // Pas de débordement horizontal
-      block.y + block.h <= 100           // Pas de débordement vertical
+      block.x + block.w <= grid.columns && // Pas de débordement horizontal
+      block.y + block.h <= grid.rows       // Pas de débordement vertical
     );
   }
 
   /**
-   * Vérifie qu'un bloc ne chevauche pas avec les blocs déjà placés
+   * Vérifie les dimensions déclarées d'une grille
+   */
+  private isValidGrid(grid: GridSize): boolean {
+    const { columns, rows } = LayoutService.MAX_GRID;
+    const inRange = (value: unknown, max: number) =>
+      Number.isInteger(value) && (value as number) > LayoutService.MIN_SIZE && (value as number) <= max;
+    return inRange(grid.columns, columns) && inRange(grid.rows, rows);
+  }
+
+  /**
+   * Analyse bloc par bloc un layout en cours d'édition
    * 
-   * ALGORITHME :
-   * 1. Parcourir toutes les cellules du bloc
-   * 2. Pour chaque cellule (x, y), vérifier si grid[x][y] est déjà true
-   * 3. Si déjà true = chevauchement détecté
-   * 4. Sinon, marquer la cellule comme occupée
+   * Contrairement à validateModel, cette méthode ne logge rien et indique
+   * QUELS blocs posent problème, pour un affichage en direct (designer).
+   * Les règles sont les mêmes : isBlockInBounds pour les limites et
+   * occupation des cellules de la grille pour les chevauchements.
    * 
-   * EFFET DE BORD :
-   * Cette fonction modifie la grille en marquant les cellules occupées.
-   * C'est voulu pour la détection cumulative de chevauchements.
+   * DIFFÉRENCE AVEC validateModel :
+   * Les DEUX blocs d'un chevauchement sont signalés, pas seulement le second.
    * 
-   * @param grid - Grille de test (modifiée par la fonction)
-   * @param block - Bloc à placer
-   * @param modelName - Nom du layout (pour les logs d'erreur)
-   * @returns boolean - true si pas de chevauchement
+   * @param layout - Blocs à analyser
+   * @param grid - Dimensions de la grille (24 × 100 par défaut)
+   * @returns Map index du bloc → problèmes détectés (absent si le bloc est valide)
    * 
    * @example
-   * const grid = Array.from({ length: 24 }, () => Array(100).fill(false));
-   * const block1 = { title: "A", x: 0, y: 0, w: 10, h: 10 };
-   * const block2 = { title: "B", x: 5, y: 5, w: 10, h: 10 };
-   * 
-   * checkOverlap(grid, block1, "test"); // true (première fois)
-   * checkOverlap(grid, block2, "test"); // false (chevauchement en (5,5)-(9,9))
-   */
-  private checkOverlap(grid: boolean[][], block: BoardLayout, modelName: string): boolean {
-    // DOUBLE BOUCLE pour parcourir toutes les cellules du bloc
-    for (let x = block.x; x < block.x + block.w; x++) {
-      for (let y = block.y; y < block.y + block.h; y++) {
-        // VÉRIFICATION DE CHEVAUCHEMENT
-        if (grid[x][y]) {
-          // Cellule déjà occupée = chevauchement détecté
-          console.warn(`❌ [${modelName}] Chevauchement détecté au bloc "${block.title}" à (${x}, ${y})`);
-          return false;
+   * const issues = layoutService.inspectBlocks([
+   *   { title: "A", x: 0, y: 0, w: 12, h: 12 },
+   *   { title: "B", x: 6, y: 6, w: 12, h: 12 }
+   * ]);
+   * // Map { 0 => ['overlap'], 1 => ['overlap'] }
+   */
+  inspectBlocks(layout: BoardLayout[], grid: GridSize = LayoutService.DEFAULT_GRID): Map<number, BlockIssue[]> {
+    const issues = new Map<number, BlockIssue[]>();
+    const owners: (number | undefined)[][] = Array.from({ length: grid.columns }, () => Array(grid.rows).fill(undefined));
+
+    const addIssue = (index: number, issue: BlockIssue) => {
+      const blockIssues = issues.get(index) || [];
+      if (!blockIssues.includes(issue)) blockIssues.push(issue);
+      issues.set(index, blockIssues);
+    };
+
+    layout.forEach((block, index) => {
+      if (!block || typeof block !== 'object' || !this.isValidBlock(block) || !this.isBlockInBounds(block, grid)) {
+        addIssue(index, 'bounds');
+        return;
+      }
+
+      for (let x = block.x; x < block.x + block.w; x++) {
+        for (let y = block.y; y < block.y + block.h; y++) {
+          const owner = owners[x][y];
+          if (owner !== undefined) {
+            addIssue(owner, 'overlap');
+            addIssue(index, 'overlap');
+          } else {
+            owners[x][y] = index;
+          }
         }
-        
-        // MARQUAGE DE LA CELLULE comme occupée
-        grid[x][y] = true;
       }
-    }
-    
-    // Aucun chevauchement détecté
-    return true;
+    });
+
+    return issues;
   }
 
   /**
@@ -384,6 +974,208 @@ export class LayoutService {
     return this.models.get(name);
   }
 
+  /**
+   * Rapport de validation d'un layout issu du dernier chargement
+   * 
+   * Disponible aussi pour les layouts rejetés, qui n'ont pas de modèle.
+   * 
+   * @param name - Nom du layout
+   * @returns LayoutValidationReport | undefined - undefined si jamais chargé
+   */
+  getValidationReport(name: string): LayoutValidationReport | undefined {
+    return this.reports.get(name);
+  }
+
+  /**
+   * Retourne tous les rapports de validation, layouts invalides en premier
+   */
+  getValidationReports(): LayoutValidationReport[] {
+    return Array.from(this.reports.values())
+      .sort((a, b) => Number(a.valid) - Number(b.valid) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Résout la valeur du frontmatter "agile-board" d'une note
+   * 
+   * FORMES ACCEPTÉES :
+   * - Nom d'un layout enregistré : `agile-board: layout_kanban`
+   * - Grille inline (objet avec une liste de blocs) :
+   *   ```yaml
+   *   agile-board:
+   *     blocks:
+   *       - { title: "Idées", x: 0, y: 0, w: 12, h: 12 }
+   *       - { title: "Actions", x: 12, y: 0, w: 12, h: 12 }
+   *   ```
+   * - Liste de blocs directement : `agile-board: [ {...}, {...} ]`
+   * - Extension d'un layout : `agile-board: { extends: layout_kanban, blocks: [...] }`
+   * - Grille aux dimensions propres : `agile-board: { grid: { columns: 12 }, blocks: [...] }`
+   * - Layout générateur paramétré par une autre clé du frontmatter :
+   *   ```yaml
+   *   agile-board: layout_columns
+   *   agile-board-columns: [Backlog, Doing, Review, Done]
+   *   ```
+   * 
+   * Le niveau de titre des sections vient de la clé "agile-board-heading"
+   * de la note (1 à 6), sinon du layout ("headingLevel"), sinon 2 (##).
+   * 
+   * Une grille inline ou générée est validée comme un layout intégré mais
+   * n'est PAS ajoutée au registre : elle ne concerne que la note qui la déclare.
+   * 
+   * @param value - Valeur brute du frontmatter
+   * @param sourcePath - Chemin de la note (identifie les grilles inline)
+   * @param frontmatter - Frontmatter complet de la note (paramètres des générateurs)
+   * @returns ResolvedLayout | undefined - undefined si absent, inconnu ou invalide
+   */
+  resolveLayout(value: unknown, sourcePath: string, frontmatter?: Record<string, unknown>): ResolvedLayout | undefined {
+    const resolved = this.resolveBlocks(value, sourcePath, frontmatter);
+    if (!resolved) return undefined;
+
+    // Niveau de titre : celui de la note prime sur celui du layout
+    const noteLevel = frontmatter?.[ParsingConstants.HEADING_LEVEL_KEY];
+    if (noteLevel !== undefined && !ParsingConstants.isValidHeadingLevel(noteLevel)) {
+      console.warn(`⚠️ "${ParsingConstants.HEADING_LEVEL_KEY}" invalide dans "${sourcePath}" (attendu : 1 à 6)`);
+    }
+
+    return {
+      ...resolved,
+      headingLevel: ParsingConstants.isValidHeadingLevel(noteLevel) ? noteLevel : resolved.headingLevel
+    };
+  }
+
+  /**
+   * Résout les blocs d'une note (voir resolveLayout), sans le niveau de titre propre à la note
+   */
+  private resolveBlocks(value: unknown, sourcePath: string, frontmatter?: Record<string, unknown>): ResolvedLayout | undefined {
+    if (typeof value === 'string') {
+      const generator = LAYOUT_GENERATORS[value];
+      if (generator && frontmatter?.[generator.parameter] !== undefined) {
+        return this.generateLayout(value, generator, frontmatter[generator.parameter], sourcePath);
+      }
+
+      const blocks = this.models.get(value);
+      return blocks
+        ? {
+          name: value,
+          blocks,
+          grid: this.getGrid(value),
+          breakpoints: this.breakpoints.get(value),
+          headingLevel: this.getHeadingLevel(value),
+          inline: false
+        }
+        : undefined;
+    }
+
+    const definition: ExtendableLayout | undefined = Array.isArray(value)
+      ? { blocks: value }
+      : (value && typeof value === 'object' ? value as ExtendableLayout : undefined);
+    if (!definition || (!definition.extends && !Array.isArray(definition.blocks))) {
+      return undefined;
+    }
+
+    const name = `inline:${sourcePath}`;
+    let blocks: BoardLayout[];
+    let grid: GridSize;
+    let report: LayoutValidationReport;
+    try {
+      blocks = this.flattenLayout(definition, [name]);
+      grid = this.flattenGrid(definition);
+      report = this.validateBreakpoints(
+        this.validateModel(name, blocks, undefined, grid), blocks, definition.breakpoints, grid);
+    } catch (error) {
+      console.warn(`❌ Grille inline de "${sourcePath}" : ${(error as Error).message}`);
+      return undefined;
+    }
+
+    if (!report.valid) {
+      console.warn(`❌ Grille inline invalide dans "${sourcePath}"`);
+      return undefined;
+    }
+
+    return {
+      name,
+      blocks,
+      grid,
+      breakpoints: definition.breakpoints,
+      headingLevel: this.flattenHeadingLevel(definition),
+      inline: true
+    };
+  }
+
+  /**
+   * Construit les blocs d'un générateur avec les valeurs d'une note
+   * 
+   * Une liste vide retombe sur les valeurs par défaut du générateur.
+   * 
+   * @param name - Nom du layout générateur
+   * @param generator - Définition du générateur
+   * @param raw - Valeur brute du paramètre dans le frontmatter
+   * @param sourcePath - Chemin de la note (pour les messages)
+   * @returns ResolvedLayout | undefined - undefined si les blocs générés sont invalides
+   */
+  private generateLayout(
+    name: string,
+    generator: LayoutGenerator,
+    raw: unknown,
+    sourcePath: string
+  ): ResolvedLayout | undefined {
+    const values = GeneratorUtils.parseValues(raw);
+    const blocks = generator.generate(values.length > 0 ? values : generator.defaults);
+
+    if (!this.validateModel(`${name}:${sourcePath}`, blocks).valid) {
+      console.warn(`❌ Paramètre "${generator.parameter}" invalide dans "${sourcePath}"`);
+      return undefined;
+    }
+
+    return {
+      name,
+      blocks,
+      grid: LayoutService.DEFAULT_GRID,
+      headingLevel: ParsingConstants.SECTION_HEADER_LEVEL,
+      inline: false
+    };
+  }
+
+  /**
+   * Dimensions de la grille d'un layout enregistré (24 × 100 par défaut)
+   */
+  getGrid(name: string): GridSize {
+    return this.grids.get(name) ?? LayoutService.DEFAULT_GRID;
+  }
+
+  /**
+   * Niveau de titre des sections d'un layout enregistré (2 par défaut)
+   */
+  getHeadingLevel(name: string): number {
+    return this.headingLevels.get(name) ?? ParsingConstants.SECTION_HEADER_LEVEL;
+  }
+
+  /**
+   * Historique des migrations d'un layout (intégré ou personnalisé)
+   * 
+   * @param name - Nom du layout
+   * @returns LayoutMigration[] - Vide pour un layout jamais modifié
+   */
+  getMigrations(name: string): LayoutMigration[] {
+    return LAYOUT_MIGRATIONS[name] ?? this.customLayouts.get(name)?.migrations ?? [];
+  }
+
+  /**
+   * Version courante d'un layout : celle de sa dernière migration, 1 sinon
+   * 
+   * @example
+   * layoutService.getLayoutVersion("layout_kanban"); // 1
+   */
+  getLayoutVersion(name: string): number {
+    return MigrationUtils.layoutVersion(this.getMigrations(name));
+  }
+
+  /**
+   * Générateur associé à un layout, undefined pour un layout à blocs fixes
+   */
+  getGenerator(name: string): LayoutGenerator | undefined {
+    return LAYOUT_GENERATORS[name];
+  }
+
   /**
    * Retourne la liste de tous les noms de layouts disponibles
    * 
@@ -429,8 +1221,8 @@ export class LayoutService {
    * console.log(unknownName); // "layout_custom" (fallback)
    */
   getLayoutDisplayName(layoutName: string): string {
-    // Chercher dans les métadonnées prédéfinies
-    const layoutInfo = LAYOUT_INFO[layoutName];
+    // Chercher dans les métadonnées prédéfinies puis utilisateur
+    const layoutInfo = LAYOUT_INFO[layoutName] || this.getModelInfo(layoutName);
     
     // Retourner le nom d'affichage ou fallback vers le nom technique
     return layoutInfo ? layoutInfo.displayName : layoutName;
@@ -466,20 +1258,61 @@ export class LayoutService {
     const model = this.models.get(name);
     if (!model) return undefined;
 
+    const thumbnail = this.getThumbnail(name);
+
     // Chercher les métadonnées prédéfinies
     const info = LAYOUT_INFO[name];
+    if (info) return { ...info, thumbnail };
+
+    // Layout utilisateur : compléter les métadonnées déclarées dans le fichier
+    const custom = this.customLayouts.get(name);
+    if (custom) {
+      return {
+        name,
+        displayName: custom.displayName || name,
+        description: custom.description || 'Layout personnalisé',
+        sections: model.map(block => block.title),
+        blockCount: model.length,
+        category: custom.category || 'custom',
+        thumbnail,
+        featured: custom.featured
+      };
+    }
     
-    // Retourner métadonnées prédéfinies ou générées automatiquement
-    return info || {
+    // Retourner des métadonnées générées automatiquement
+    return {
       name,
       displayName: name,                              // Nom technique par défaut
       description: 'Layout personnalisé',             // Description générique
       sections: model.map(block => block.title),      // Extraire les titres des blocs
       blockCount: model.length,                       // Compter les blocs
-      category: 'custom'                              // Catégorie par défaut
+      category: 'custom',                             // Catégorie par défaut
+      thumbnail
     };
   }
 
+  /**
+   * Retourne la miniature SVG d'un layout (générée puis mise en cache)
+   * 
+   * @param name - Nom du layout
+   * @returns string | undefined - Balise <svg>, undefined si layout inexistant
+   * 
+   * @example
+   * const svg = layoutService.getThumbnail("layout_kanban");
+   * containerEl.innerHTML = svg ?? '';
+   */
+  getThumbnail(name: string): string | undefined {
+    const cached = this.thumbnails.get(name);
+    if (cached) return cached;
+
+    const model = this.models.get(name);
+    if (!model) return undefined;
+
+    const svg = ThumbnailUtils.generateSvg(model, this.getGrid(name).columns);
+    this.thumbnails.set(name, svg);
+    return svg;
+  }
+
   /**
    * Retourne les métadonnées de tous les layouts disponibles
    * 
@@ -13,7 +13,9 @@ import { BoardSettings } from '../utils/settings';
 import { LoggerService } from './LoggerService';
 import { LayoutService } from './LayoutService';
 import { FileService } from './FileService';
+import { CustomLayoutService } from './CustomLayoutService';
 import { FileCache } from '../cache/FileCache';
+import { SectionMatcher } from '../utils/matcher';
 import { PluginIntegrationManager } from './PluginIntegrationManager';
 import type AgileBoardPlugin from '../main';
 
@@ -24,6 +26,7 @@ export class ServiceContainer {
     readonly logger: LoggerService;
     readonly layout: LayoutService;
     readonly file: FileService;
+    readonly customLayouts: CustomLayoutService;
     readonly cache: FileCache;
     // ✅ NOUVEAU : Gestionnaire universel des plugins
     readonly pluginIntegration: PluginIntegrationManager;
@@ -38,6 +41,9 @@ export class ServiceContainer {
         this.cache = new FileCache();
         this.layout = new LayoutService(plugin);
         this.file = new FileService(this.app, this.layout, this.logger);
+        this.file.setSectionLanguage(settings.sectionLanguage || '');
+        SectionMatcher.configure(settings.sectionMatching);
+        this.customLayouts = new CustomLayoutService(this.app, this.layout, this.logger, settings.layoutsFolder);
         
         // ✅ NOUVEAU : Initialiser le gestionnaire de plugins
         this.pluginIntegration = new PluginIntegrationManager(this.app, this.logger);
@@ -50,8 +56,10 @@ export class ServiceContainer {
         this.logger.info('Initialisation du container de services avec support universel plugins');
         
         try {
-            // Charger les layouts
+            // Charger les layouts intégrés puis ceux du dossier utilisateur
             this.layout.load();
+            await this.customLayouts.loadAll();
+            this.customLayouts.watch(this.plugin);
             
             const stats = {
                 layoutsCount: this.layout.getAllModelNames().length,
@@ -72,7 +80,14 @@ export class ServiceContainer {
      */
     updateSettings(settings: BoardSettings): void {
         this.logger.updateSettings(settings.debug);
-        // Autres mises à jour si nécessaire
+        this.file.setSectionLanguage(settings.sectionLanguage || '');
+        SectionMatcher.configure(settings.sectionMatching);
+        
+        if (settings.layoutsFolder !== this.customLayouts.getFolder()) {
+            this.customLayouts.setFolder(settings.layoutsFolder).catch(error => {
+                this.logger.error('Erreur changement du dossier de layouts', error);
+            });
+        }
     }
 
     /**
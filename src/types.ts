@@ -75,8 +75,62 @@ export interface BoardLayout {
     y: number;
     w: number;
     h: number;
+    
+    /** Titres localisés par code de langue (ex: { en: "To Do" }) */
+    titles?: Record<string, string>;
+    
+    /** Autres titres de section reconnus pour ce bloc (ex: ["Todo"]) */
+    aliases?: string[];
+
+    /**
+     * Contenu initial de la section (requête Tasks, checklist...), écrit à la
+     * création de la note et par "Créer les sections manquantes".
+     * Variables : {{date}}, {{title}}, {{week}}, {{layout}} (voir TemplateUtils)
+     */
     content?: string;
-    metadata?: any;
+    
+    /** Options d'affichage du bloc (validées par LayoutService.validateModel) */
+    metadata?: BlockOptions;
+}
+
+/**
+ * Valeurs des variables du contenu initial des blocs
+ */
+export interface TemplateContext {
+    /** Date de création (YYYY-MM-DD) */
+    date: string;
+    
+    /** Nom de la note, sans extension */
+    title: string;
+    
+    /** Semaine ISO (YYYY-Www) */
+    week: string;
+    
+    /** Nom du layout */
+    layout: string;
+}
+
+/**
+ * Options d'affichage d'un bloc, déclarées dans "metadata"
+ */
+export interface BlockOptions {
+    /** Couleur d'accent : couleur du thème (red, blue...) ou hexadécimale (#4a90d9) */
+    color?: string;
+    
+    /** Icône Lucide affichée devant le titre (ex: "inbox", "check-circle") */
+    icon?: string;
+    
+    /** Contenu replié à l'ouverture du board (clic sur le titre pour déplier) */
+    collapsed?: boolean;
+    
+    /** Masque la barre de titre du bloc */
+    hideTitle?: boolean;
+    
+    /** Empêche l'édition du contenu depuis le board */
+    readOnly?: boolean;
+    
+    /** Libellé affiché à la place du titre de section (le titre dans la note ne change pas) */
+    label?: string;
 }
 
 export interface BoardModel {
@@ -90,26 +144,332 @@ export interface LayoutInfo {
     sections: string[];
     blockCount: number;
     category: string;
+    
+    /** Miniature SVG générée à partir des blocs (voir LayoutService.getThumbnail) */
     thumbnail?: string;
     featured?: boolean;
 }
 
+/**
+ * Dimensions d'une grille de layout (24 × 100 par défaut)
+ */
+export interface GridSize {
+    /** Nombre de colonnes (largeur de la grille) */
+    columns: number;
+    
+    /** Nombre maximal de lignes (hauteur de la grille) */
+    rows: number;
+}
+
+/**
+ * Variante d'un layout pour les vues étroites (panneau latéral, écran partagé)
+ *
+ * Les blocs de la variante repositionnent les blocs du layout de même
+ * titre ; un bloc absent de la variante est masqué à cette largeur.
+ */
+export interface LayoutBreakpoint {
+    /** Largeur maximale de la vue (px) à laquelle la variante s'applique */
+    maxWidth: number;
+    
+    /** Nombre de colonnes de la variante (celui du layout par défaut) */
+    columns?: number;
+    
+    /** Positions des blocs dans la variante */
+    blocks: BoardLayout[];
+}
+
+/**
+ * Disposition effective d'un board pour une largeur de vue
+ */
+export interface BoardArrangement {
+    /** Identifiant de la disposition ("full", "stacked", "variant:600"...) */
+    key: string;
+    
+    /** Nombre de colonnes de la grille affichée */
+    columns: number;
+    
+    /** Blocs positionnés (les blocs masqués sont absents) */
+    blocks: BoardLayout[];
+    
+    /** true pour un reflow automatique : lignes de hauteur fixe, défilement vertical */
+    reflowed: boolean;
+}
+
+/**
+ * Layout dont les blocs sont construits à partir d'un paramètre du frontmatter
+ */
+export interface LayoutGenerator {
+    /** Clé du frontmatter lue par le générateur (ex: "agile-board-columns") */
+    parameter: string;
+    
+    /** Valeurs utilisées sans paramètre (création, aperçu, miniature) */
+    defaults: string[];
+    
+    /** Construit les blocs à partir des valeurs du paramètre */
+    generate: (values: string[]) => BoardLayout[];
+}
+
+/**
+ * Layout effectif d'une note : layout enregistré ou grille inline
+ * déclarée directement dans le frontmatter "agile-board"
+ */
+export interface ResolvedLayout {
+    /** Nom du layout enregistré (générateurs compris), ou "inline:<chemin de la note>" */
+    name: string;
+    
+    /** Blocs validés de la grille (générés avec les paramètres de la note) */
+    blocks: BoardLayout[];
+    
+    /** Dimensions de la grille du layout */
+    grid: GridSize;
+    
+    /** Variantes pour les vues étroites (reflow automatique si absentes) */
+    breakpoints?: LayoutBreakpoint[];
+    
+    /** Niveau de titre des sections (note, sinon layout, sinon 2) */
+    headingLevel: number;
+    
+    /** true si la grille est propre à la note (non enregistrée globalement) */
+    inline: boolean;
+}
+
+/**
+ * Problème détecté sur un bloc par LayoutService.inspectBlocks
+ * - bounds : bloc hors grille ou trop petit
+ * - overlap : bloc chevauchant un autre bloc
+ */
+export type BlockIssue = 'bounds' | 'overlap';
+
+/**
+ * Définition d'un layout utilisateur, chargée depuis un fichier JSON ou YAML
+ * du dossier de layouts configuré dans les paramètres
+ */
+export interface CustomLayoutDefinition {
+    /** Identifiant technique (toujours préfixé par "layout_") */
+    name: string;
+    
+    /** Métadonnées d'affichage (optionnelles, complétées par défaut) */
+    displayName?: string;
+    description?: string;
+    category?: string;
+    featured?: boolean;
+    
+    /** Blocs de la grille, validés comme les layouts intégrés */
+    blocks: BoardLayout[];
+    
+    /** Dimensions de la grille (héritées du parent, 24 × 100 par défaut) */
+    grid?: Partial<GridSize>;
+    
+    /** Variantes pour les vues étroites (non héritées) */
+    breakpoints?: LayoutBreakpoint[];
+    
+    /** Niveau de titre des sections, de 1 à 6 (hérité du parent, 2 par défaut) */
+    headingLevel?: number;
+    
+    /** Layout parent dont les blocs sont repris (intégré ou personnalisé) */
+    extends?: string;
+    
+    /** Titres des blocs du parent à retirer */
+    remove?: string[];
+    
+    /** Historique des changements de sections (la dernière version est celle du layout) */
+    migrations?: LayoutMigration[];
+    
+    /** Chemin du fichier source dans le vault */
+    source?: string;
+}
+
+/**
+ * Changement de sections entre deux versions d'un layout
+ *
+ * Les sections ajoutées n'ont pas à être listées : la migration crée
+ * toutes les sections du layout absentes de la note.
+ */
+export interface LayoutMigration {
+    /** Version du layout atteinte par cette migration (2, 3...) */
+    version: number;
+    
+    /** Sections renommées : ancien titre → nouveau titre */
+    renames?: Record<string, string>;
+    
+    /** Description du changement, reprise dans le rapport */
+    description?: string;
+}
+
+/**
+ * Résultat de la migration d'une note vers la version courante de son layout
+ */
+export interface NoteMigrationReport {
+    /** Chemin de la note */
+    path: string;
+    layoutName: string;
+    fromVersion: number;
+    toVersion: number;
+    
+    /** Titres de sections renommés */
+    renamed: Array<{ from: string; to: string }>;
+    
+    /** Sections ajoutées */
+    added: string[];
+    
+    /** Descriptions des migrations appliquées */
+    notes: string[];
+    
+    /** Message d'erreur si la note n'a pas pu être migrée */
+    error?: string;
+}
+
+/**
+ * Nature d'un problème relevé dans un rapport de validation de layout
+ */
+export type LayoutIssueCode =
+    | 'invalid-type'      // structure ou types de bloc incorrects
+    | 'too-small'         // largeur ou hauteur sous la taille minimale
+    | 'out-of-bounds'     // bloc débordant de la grille
+    | 'overlap'           // bloc chevauchant un bloc précédent
+    | 'duplicate-title'   // deux blocs avec le même titre
+    | 'empty'             // layout sans aucun bloc
+    | 'invalid-option'    // option de bloc (metadata) de type ou valeur incorrect
+    | 'unknown-option'    // option de bloc inconnue, ignorée
+    | 'definition'        // héritage, nom réservé... (avant analyse des blocs)
+    | 'invalid-grid'      // dimensions de grille invalides
+    | 'invalid-breakpoint' // variante pour vue étroite invalide
+    | 'unused-area';      // zone de la grille non couverte
+
+export interface LayoutValidationIssue {
+    severity: 'error' | 'warning';
+    code: LayoutIssueCode;
+    message: string;
+    
+    /** Index et titre du bloc concerné (absent pour un problème global) */
+    blockIndex?: number;
+    blockTitle?: string;
+    
+    /** Première cellule en conflit et bloc rencontré (chevauchements) */
+    cell?: { x: number; y: number };
+    overlapsWith?: string;
+}
+
+/**
+ * Rapport de validation d'un layout produit par LayoutService.validateModel
+ * Un layout est chargé si et seulement si il n'a aucune erreur.
+ */
+export interface LayoutValidationReport {
+    name: string;
+    
+    /** Chemin du fichier pour les layouts personnalisés */
+    source?: string;
+    
+    valid: boolean;
+    errors: LayoutValidationIssue[];
+    warnings: LayoutValidationIssue[];
+}
+
 // ===================================================================
 // INTERFACES DE FICHIERS ET SECTIONS
 // ===================================================================
 
 export interface FileSection {
+    /** Index de la ligne de titre et fin de section (exclusive) */
     start: number;
     end: number;
     lines: string[];
     name?: string;
     content?: string;
+    
+    /** Position (en caractères) du titre et de la fin de section */
+    startOffset?: number;
+    endOffset?: number;
 }
 
+/**
+ * État de la dernière sauvegarde d'une frame
+ */
+export type FrameSaveState = 'saving' | 'saved' | 'failed';
+
 export interface FileSections {
     [sectionName: string]: FileSection;
 }
 
+/**
+ * Section d'une note découpée par SectionUtils.splitNote
+ */
+export interface NoteSection {
+    /** Nom de la section (texte du titre) */
+    name: string;
+    
+    /** Ligne de titre telle qu'écrite dans la note */
+    heading: string;
+    
+    /** Index de la ligne de titre et fin de section (exclusive) */
+    start: number;
+    end: number;
+    
+    /** Lignes de contenu, sans le titre */
+    lines: string[];
+}
+
+/**
+ * Emplacement d'une section dans une note (voir SectionUtils.locateSections)
+ * La section va de son titre au titre de section suivant ou à un titre de
+ * rang supérieur, exclus.
+ */
+export interface SectionRange {
+    name: string;
+    
+    /** Index de la ligne de titre et fin de section (exclusive) */
+    start: number;
+    end: number;
+    
+    /** Position (en caractères) du titre, du contenu et de la fin de section */
+    startOffset: number;
+    contentOffset: number;
+    endOffset: number;
+}
+
+/**
+ * Découpage complet d'une note : rien n'est perdu entre découpage et rendu
+ */
+export interface NoteStructure {
+    /** Lignes du frontmatter, délimiteurs "---" inclus (vide si absent) */
+    frontmatter: string[];
+    
+    /** Lignes entre le frontmatter et la première section */
+    preamble: string[];
+    
+    sections: NoteSection[];
+}
+
+/**
+ * Réorganisation d'une note selon son layout (voir SectionUtils.normalizeNote)
+ */
+export interface NoteNormalization {
+    /** Contenu de la note avant et après normalisation */
+    before: string;
+    after: string;
+    
+    /** Sections créées pour les blocs absents */
+    added: string[];
+    
+    /** Des sections existantes changent de place */
+    reordered: boolean;
+}
+
+/**
+ * Ligne d'une comparaison de deux textes (voir DiffUtils.diffLines)
+ */
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Correspondance ancienne section → bloc du nouveau layout
+ * (undefined : la section est conservée hors layout)
+ * Plusieurs sections vers le même bloc sont fusionnées.
+ */
+export type SectionMapping = Record<string, string | undefined>;
+
 // ===================================================================
 // ✅ NOUVEAUX TYPES POUR LE SUPPORT UNIVERSEL DES PLUGINS
 // ===================================================================
@@ -271,6 +631,16 @@ export interface MarkdownConversionResult {
 export interface BoardSettings {
     autoCreateSections: boolean;
     defaultLayouts: string[];
+    
+    /** Dossier du vault contenant les layouts personnalisés (JSON/YAML) */
+    layoutsFolder: string;
+    
+    /** Langue des titres des sections créées ('' = titres de référence) */
+    sectionLanguage: string;
+    
+    /** Normalisation des noms de sections comparés (voir SectionMatcher) */
+    sectionMatching?: SectionMatchingOptions;
+    
     debug: DebugSettings;
     ui?: UISettings;
     
@@ -278,6 +648,23 @@ export interface BoardSettings {
     pluginSupport?: PluginSupportConfig;
 }
 
+/**
+ * Différences ignorées entre deux noms de sections (espaces toujours ignorés)
+ */
+export interface SectionMatchingOptions {
+    /** "à faire" = "À faire" */
+    ignoreCase: boolean;
+    
+    /** "A faire" = "À faire" */
+    ignoreAccents: boolean;
+    
+    /** "🔥 À faire" = "À faire" */
+    ignoreEmoji: boolean;
+    
+    /** "À faire :" = "À faire" */
+    ignoreTrailingPunctuation: boolean;
+}
+
 export interface UISettings {
     theme: 'light' | 'dark' | 'auto';
     showThumbnails: boolean;
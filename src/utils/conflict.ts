@@ -0,0 +1,45 @@
+/**
+ * Fusion d'une section modifiée à la fois dans le board et ailleurs
+ * (autre panneau, synchronisation, autre frame)
+ */
+export class ConflictUtils {
+
+    /**
+     * Fusion ligne à ligne à trois versions
+     *
+     * RÈGLES :
+     * - La version du fichier (theirs) sert de base au résultat
+     * - Les lignes supprimées dans le board (présentes dans base, absentes
+     *   de mine) sont retirées
+     * - Les lignes ajoutées dans le board (absentes de base et de theirs)
+     *   sont insérées après la ligne qui les précède dans le board, ou en
+     *   tête si aucune ne les précède dans le résultat
+     *
+     * @param base - Contenu de la section au dernier affichage
+     * @param mine - Contenu édité dans le board
+     * @param theirs - Contenu actuel de la section dans le fichier
+     * @returns Proposition de fusion, à relire par l'utilisateur
+     */
+    static mergeSection(base: string, mine: string, theirs: string): string {
+        const baseLines = base.split('\n');
+        const mineLines = mine.split('\n');
+        const mineSet = new Set(mineLines);
+        const removed = new Set(baseLines.filter(line => line.trim() && !mineSet.has(line)));
+
+        const result = theirs.split('\n').filter(line => !removed.has(line));
+        const known = new Set([...baseLines, ...result]);
+
+        mineLines.forEach((line, index) => {
+            if (known.has(line)) return;
+
+            let anchor = -1;
+            for (let previous = index - 1; previous >= 0 && anchor < 0; previous--) {
+                anchor = result.lastIndexOf(mineLines[previous]);
+            }
+            result.splice(anchor + 1, 0, line);
+            known.add(line);
+        });
+
+        return result.join('\n');
+    }
+}
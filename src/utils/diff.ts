@@ -0,0 +1,106 @@
+import { DiffLine } from '../types';
+
+/**
+ * Comparaison ligne à ligne de deux versions d'une note
+ * (aperçu avant écriture, voir NormalizeNoteModal)
+ */
+export class DiffUtils {
+    /** Au-delà de ce nombre de comparaisons, la partie modifiée est affichée en bloc */
+    private static readonly MAX_CELLS = 4_000_000;
+
+    /**
+     * Différences entre deux textes, par plus longue sous-suite commune
+     *
+     * Les lignes communes en début et en fin sont écartées avant le calcul.
+     * Si la partie restante est trop grande (voir MAX_CELLS), elle est
+     * rendue comme entièrement supprimée puis ajoutée.
+     *
+     * @returns Lignes des deux versions, dans l'ordre de lecture
+     */
+    static diffLines(before: string, after: string): DiffLine[] {
+        const a = before.split('\n');
+        const b = after.split('\n');
+
+        let prefix = 0;
+        while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < a.length - prefix && suffix < b.length - prefix &&
+            a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+        const same = (text: string): DiffLine => ({ type: 'same', text });
+        const middle = DiffUtils.diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+        return [
+            ...a.slice(0, prefix).map(same),
+            ...middle,
+            ...a.slice(a.length - suffix).map(same)
+        ];
+    }
+
+    /**
+     * Regroupe les modifications avec quelques lignes de contexte
+     *
+     * @param context - Lignes inchangées conservées autour de chaque modification
+     * @returns Extraits à afficher, séparés par les lignes inchangées omises
+     */
+    static hunks(diff: DiffLine[], context = 3): DiffLine[][] {
+        const visible = diff.map(() => false);
+        diff.forEach((line, index) => {
+            if (line.type === 'same') return;
+            for (let i = Math.max(0, index - context); i <= Math.min(diff.length - 1, index + context); i++) {
+                visible[i] = true;
+            }
+        });
+
+        const hunks: DiffLine[][] = [];
+        let current: DiffLine[] | null = null;
+        diff.forEach((line, index) => {
+            if (!visible[index]) {
+                current = null;
+                return;
+            }
+            if (!current) {
+                current = [];
+                hunks.push(current);
+            }
+            current.push(line);
+        });
+
+        return hunks;
+    }
+
+    private static diffMiddle(a: string[], b: string[]): DiffLine[] {
+        const removed = a.map((text): DiffLine => ({ type: 'removed', text }));
+        const added = b.map((text): DiffLine => ({ type: 'added', text }));
+        if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > DiffUtils.MAX_CELLS) {
+            return [...removed, ...added];
+        }
+
+        // lengths[i][j] : plus longue sous-suite commune de a[i..] et b[j..]
+        const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i][j] = a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        const result: DiffLine[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                result.push({ type: 'same', text: a[i] });
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                result.push(removed[i++]);
+            } else {
+                result.push(added[j++]);
+            }
+        }
+
+        return [...result, ...removed.slice(i), ...added.slice(j)];
+    }
+}
@@ -0,0 +1,80 @@
+import { BoardLayout } from '../types';
+
+/**
+ * Construction de blocs à partir de paramètres du frontmatter
+ * Utilisé par les layouts générateurs (voir constants/generators)
+ */
+export class GeneratorUtils {
+
+    // ===============================================================
+    // DIMENSIONS
+    // ===============================================================
+
+    /** Nombre de colonnes de la grille */
+    static readonly COLUMNS = 24;
+
+    /** Largeur minimale d'un bloc (les blocs doivent dépasser 2 colonnes) */
+    static readonly MIN_WIDTH = 3;
+
+    /** Hauteur d'une rangée de colonnes */
+    static readonly ROW_HEIGHT = 24;
+
+    // ===============================================================
+    // PARAMÈTRES
+    // ===============================================================
+
+    /**
+     * Normalise la valeur d'un paramètre en liste de titres
+     *
+     * Accepte une liste YAML ou un texte séparé par des virgules ; les
+     * valeurs vides et les doublons sont ignorés.
+     *
+     * @example parseValues("Backlog, Doing, Done") // ["Backlog", "Doing", "Done"]
+     */
+    static parseValues(raw: unknown): string[] {
+        const values = Array.isArray(raw)
+            ? raw
+            : typeof raw === 'string' ? raw.split(',') : [];
+
+        const titles = values
+            .filter(value => typeof value === 'string' || typeof value === 'number')
+            .map(value => String(value).trim())
+            .filter(Boolean);
+        return Array.from(new Set(titles));
+    }
+
+    // ===============================================================
+    // GÉNÉRATION
+    // ===============================================================
+
+    /**
+     * Répartit des colonnes sur toute la largeur de la grille
+     *
+     * La largeur est partagée équitablement, le reste de la division étant
+     * donné aux premières colonnes. Au-delà de 8 colonnes (largeur minimale
+     * de 3), les colonnes passent sur une rangée supplémentaire.
+     *
+     * @example spreadColumns(["A", "B", "C", "D", "E"])
+     * // largeurs 5, 5, 5, 5, 4 sur une rangée de hauteur 24
+     */
+    static spreadColumns(titles: string[]): BoardLayout[] {
+        const { COLUMNS, MIN_WIDTH, ROW_HEIGHT } = GeneratorUtils;
+        const perRow = Math.floor(COLUMNS / MIN_WIDTH);
+        const blocks: BoardLayout[] = [];
+
+        for (let start = 0; start < titles.length; start += perRow) {
+            const row = titles.slice(start, start + perRow);
+            const base = Math.floor(COLUMNS / row.length);
+            const remainder = COLUMNS % row.length;
+
+            let x = 0;
+            row.forEach((title, index) => {
+                const w = base + (index < remainder ? 1 : 0);
+                blocks.push({ title, x, y: (start / perRow) * ROW_HEIGHT, w, h: ROW_HEIGHT });
+                x += w;
+            });
+        }
+
+        return blocks;
+    }
+}
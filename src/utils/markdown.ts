@@ -0,0 +1,162 @@
+import { ParsingConstants } from '../constants/parsing';
+
+/**
+ * Blocs Markdown dans lesquels une ligne "## ..." n'est pas un titre
+ *
+ * Frontmatter YAML, blocs de code (``` ou ~~~, y compris les requêtes
+ * Tasks/Dataview et les blocs cités dans un callout), blocs de maths ($$)
+ * et commentaires (<!-- --> et %% %%).
+ */
+export class MarkdownUtils {
+
+    // ===============================================================
+    // DÉLIMITEURS
+    // ===============================================================
+
+    /** Ouverture d'un bloc de code, éventuellement dans une citation ou un callout */
+    static readonly FENCE_OPEN_REGEX = /^((?:\s{0,3}>\s?)*)\s{0,3}(`{3,}|~{3,})(.*)$/;
+
+    /** Fermeture d'un bloc de code (marqueur seul sur sa ligne) */
+    static readonly FENCE_CLOSE_REGEX = /^(?:\s{0,3}>\s?)*\s{0,3}(`{3,}|~{3,})\s*$/;
+
+    /** Ligne appartenant à une citation ou un callout */
+    static readonly QUOTE_REGEX = /^\s{0,3}>/;
+
+    /** Délimiteur des blocs de maths */
+    static readonly MATH_DELIMITER = '$$';
+
+    /** Commentaires : ouverture → fermeture */
+    static readonly COMMENT_DELIMITERS: Record<string, string> = {
+        '<!--': '-->',
+        '%%': '%%'
+    };
+
+    /** Code inline : suite de ` refermée par une suite de même longueur */
+    private static readonly INLINE_CODE_REGEX = /(?<!`)(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g;
+
+    // ===============================================================
+    // ANALYSE DES LIGNES
+    // ===============================================================
+
+    /**
+     * Indique pour chaque ligne si elle est du texte Markdown ordinaire, donc
+     * susceptible d'être un titre de section
+     *
+     * RÈGLES :
+     * - Frontmatter : de la première ligne "---" au délimiteur suivant
+     * - Bloc de code : jusqu'à un marqueur du même caractère, au moins aussi
+     *   long ; un bloc ouvert dans une citation se termine avec elle
+     * - Bloc de maths : d'une ligne commençant par $$ à la ligne suivante
+     *   contenant $$ ($$...$$ sur une ligne est complet)
+     * - Commentaire : de l'ouverture non refermée sur sa ligne jusqu'à la
+     *   fermeture ; la ligne d'ouverture reste du texte
+     * - Un bloc non refermé court jusqu'à la fin de la note
+     *
+     * @param lines - Lignes de la note
+     * @returns Tableau de même longueur, false pour les lignes à ignorer
+     */
+    static textLines(lines: string[]): boolean[] {
+        const text = new Array<boolean>(lines.length).fill(true);
+
+        let index = 0;
+        if (ParsingConstants.FRONTMATTER_DELIMITER.test(lines[0] ?? '')) {
+            const closing = lines.findIndex((line, i) => i > 0 && ParsingConstants.FRONTMATTER_DELIMITER.test(line));
+            if (closing > 0) {
+                text.fill(false, 0, closing + 1);
+                index = closing + 1;
+            }
+        }
+
+        let fence: { marker: string; quoted: boolean } | null = null;
+        let inMath = false;
+        let commentEnd: string | null = null;
+
+        for (; index < lines.length; index++) {
+            const line = lines[index];
+
+            if (fence?.quoted && !MarkdownUtils.QUOTE_REGEX.test(line)) {
+                fence = null;
+            }
+
+            if (fence) {
+                text[index] = false;
+                if (MarkdownUtils.closesFence(line, fence.marker)) fence = null;
+                continue;
+            }
+
+            if (inMath) {
+                text[index] = false;
+                inMath = !line.includes(MarkdownUtils.MATH_DELIMITER);
+                continue;
+            }
+
+            if (commentEnd) {
+                text[index] = false;
+                const end = line.indexOf(commentEnd);
+                if (end >= 0) {
+                    commentEnd = MarkdownUtils.unclosedComment(line.slice(end + commentEnd.length));
+                }
+                continue;
+            }
+
+            const opening = line.match(MarkdownUtils.FENCE_OPEN_REGEX);
+            // Une info string contenant ` n'ouvre pas de bloc (code inline)
+            if (opening && !(opening[2][0] === '`' && opening[3].includes('`'))) {
+                text[index] = false;
+                fence = { marker: opening[2], quoted: opening[1].includes('>') };
+                continue;
+            }
+
+            const trimmed = line.trim();
+            if (trimmed.startsWith(MarkdownUtils.MATH_DELIMITER)) {
+                text[index] = false;
+                inMath = !(trimmed.length >= 4 && trimmed.endsWith(MarkdownUtils.MATH_DELIMITER));
+                continue;
+            }
+
+            commentEnd = MarkdownUtils.unclosedComment(line);
+        }
+
+        return text;
+    }
+
+    // ===============================================================
+    // MÉTHODES PRIVÉES
+    // ===============================================================
+
+    /**
+     * Vérifie qu'une ligne ferme le bloc de code ouvert par un marqueur
+     */
+    private static closesFence(line: string, marker: string): boolean {
+        const match = line.match(MarkdownUtils.FENCE_CLOSE_REGEX);
+        return !!match && match[1][0] === marker[0] && match[1].length >= marker.length;
+    }
+
+    /**
+     * Cherche un commentaire ouvert et non refermé dans un texte
+     *
+     * Les délimiteurs écrits dans du code inline (`%%`, `<!--`) n'ouvrent
+     * pas de commentaire.
+     *
+     * @returns Délimiteur de fermeture attendu, null si aucun commentaire n'est ouvert
+     */
+    private static unclosedComment(text: string): string | null {
+        let rest = text.replace(MarkdownUtils.INLINE_CODE_REGEX, '');
+
+        while (rest) {
+            const next = Object.keys(MarkdownUtils.COMMENT_DELIMITERS)
+                .map(open => ({ open, start: rest.indexOf(open) }))
+                .filter(candidate => candidate.start >= 0)
+                .sort((a, b) => a.start - b.start)[0];
+            if (!next) return null;
+
+            const close = MarkdownUtils.COMMENT_DELIMITERS[next.open];
+            const end = rest.indexOf(close, next.start + next.open.length);
+            if (end < 0) return close;
+
+            rest = rest.slice(end + close.length);
+        }
+
+        return null;
+    }
+}
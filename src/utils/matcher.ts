@@ -0,0 +1,93 @@
+import { SectionMatchingOptions } from '../types';
+
+/**
+ * Comparaison des noms de sections
+ *
+ * Toutes les comparaisons de noms passent par cette classe : sections
+ * affichées par le board, sections manquantes, sauvegardes, doublons et
+ * migrations reconnaissent ainsi les mêmes titres. La normalisation se
+ * règle dans les paramètres du plugin (voir configure).
+ *
+ * @example
+ * SectionMatcher.matches('🔥 a faire :', 'À faire') // true avec les options par défaut
+ */
+export class SectionMatcher {
+    static readonly DEFAULT_OPTIONS: SectionMatchingOptions = {
+        ignoreCase: true,
+        ignoreAccents: true,
+        ignoreEmoji: true,
+        ignoreTrailingPunctuation: true
+    };
+
+    /** Emoji (séquences composées et drapeaux compris) en tête de titre */
+    private static readonly LEADING_EMOJI = /^(?:[\p{Extended_Pictographic}\p{Regional_Indicator}\u200d\ufe0f]+\s*)+/u;
+
+    /** Ponctuation en fin de titre ("À faire :", "Questions ?") */
+    private static readonly TRAILING_PUNCTUATION = /[\s.,;:!?…·\-–—]+$/u;
+
+    private static options: SectionMatchingOptions = { ...SectionMatcher.DEFAULT_OPTIONS };
+
+    /**
+     * Règle la normalisation des noms (options absentes : valeurs par défaut)
+     */
+    static configure(options?: Partial<SectionMatchingOptions>): void {
+        SectionMatcher.options = { ...SectionMatcher.DEFAULT_OPTIONS, ...options };
+    }
+
+    static getOptions(): SectionMatchingOptions {
+        return { ...SectionMatcher.options };
+    }
+
+    /**
+     * Clé de comparaison d'un nom de section
+     *
+     * Les espaces en bord et en double sont toujours ignorés, et les
+     * caractères composés unifiés (NFC). Casse, accents, emoji en tête et
+     * ponctuation finale le sont selon les options. Un titre réduit à des
+     * emoji ou à de la ponctuation garde ces caractères.
+     */
+    static key(name: string, options: SectionMatchingOptions = SectionMatcher.options): string {
+        const strip = (value: string, pattern: RegExp) => value.replace(pattern, '') || value;
+
+        let key = name.normalize('NFC').trim().replace(/\s+/g, ' ');
+        if (options.ignoreEmoji) {
+            key = strip(key, SectionMatcher.LEADING_EMOJI);
+        }
+        if (options.ignoreTrailingPunctuation) {
+            key = strip(key, SectionMatcher.TRAILING_PUNCTUATION);
+        }
+        if (options.ignoreAccents) {
+            key = key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+        }
+        if (options.ignoreCase) {
+            key = key.toLowerCase();
+        }
+
+        return key;
+    }
+
+    /**
+     * Indique si deux noms désignent la même section
+     */
+    static matches(a: string, b: string): boolean {
+        return SectionMatcher.key(a) === SectionMatcher.key(b);
+    }
+
+    /**
+     * Trouve, parmi des noms de sections, celui qui correspond à l'un des titres
+     *
+     * @param titles - Titres acceptés, par ordre de priorité
+     * @param names - Noms des sections de la note
+     * @returns Nom exact trouvé pour le titre le plus prioritaire, undefined sinon
+     */
+    static find(titles: string[], names: string[]): string | undefined {
+        const keys = names.map(name => SectionMatcher.key(name));
+
+        for (const title of titles) {
+            const index = keys.indexOf(SectionMatcher.key(title));
+            if (index >= 0) return names[index];
+        }
+
+        return undefined;
+    }
+}
@@ -0,0 +1,141 @@
+import { BoardLayout, LayoutMigration, TemplateContext } from '../types';
+import { ParsingConstants } from '../constants/parsing';
+import { SectionUtils } from './sections';
+import { SectionMatcher } from './matcher';
+
+/**
+ * Paramètres de la migration d'une note
+ */
+export interface NoteMigrationOptions {
+    /** Blocs de la version courante du layout */
+    blocks: BoardLayout[];
+
+    /** Historique des migrations du layout */
+    migrations: LayoutMigration[];
+
+    /** Version enregistrée dans la note */
+    fromVersion: number;
+
+    /** Version courante du layout */
+    toVersion: number;
+
+    /** Valeurs des variables du contenu initial des sections ajoutées */
+    context: TemplateContext;
+
+    /** Langue des titres des sections ajoutées */
+    language?: string;
+
+    /** Niveau de titre des sections (2 par défaut) */
+    headingLevel?: number;
+}
+
+/**
+ * Résultat d'une migration, avant écriture
+ */
+export interface NoteMigrationResult {
+    content: string;
+    renamed: Array<{ from: string; to: string }>;
+    added: string[];
+    notes: string[];
+}
+
+/**
+ * Versions des layouts et migration des notes créées avec une version antérieure
+ *
+ * La version d'un layout est celle de sa dernière migration (1 sans
+ * migration). Une note enregistre dans "agile-board-version" la version
+ * avec laquelle elle a été créée ou migrée (1 si absente).
+ */
+export class MigrationUtils {
+
+    // ===============================================================
+    // VERSIONS
+    // ===============================================================
+
+    /** Clé du frontmatter portant la version du layout de la note */
+    static readonly VERSION_KEY = 'agile-board-version';
+
+    /**
+     * Version courante d'un layout d'après son historique de migrations
+     */
+    static layoutVersion(migrations: LayoutMigration[]): number {
+        return Math.max(1, ...migrations.map(migration => migration.version));
+    }
+
+    /**
+     * Version enregistrée dans le frontmatter d'une note (1 par défaut)
+     */
+    static noteVersion(frontmatter?: Record<string, unknown>): number {
+        const value = Number(frontmatter?.[MigrationUtils.VERSION_KEY]);
+        return Number.isInteger(value) && value >= 1 ? value : 1;
+    }
+
+    /**
+     * Enregistre une version dans le frontmatter d'une note
+     */
+    static setNoteVersion(content: string, version: number): string {
+        const structure = SectionUtils.splitNote(content);
+        structure.frontmatter = SectionUtils.setFrontmatterValue(
+            structure.frontmatter, MigrationUtils.VERSION_KEY, String(version));
+        return SectionUtils.renderNote(structure);
+    }
+
+    // ===============================================================
+    // MIGRATION
+    // ===============================================================
+
+    /**
+     * Migre le contenu d'une note vers la version courante de son layout
+     *
+     * ÉTAPES :
+     * 1. Renommages des migrations postérieures à la version de la note,
+     *    dans l'ordre des versions (un renommage vers un titre déjà présent
+     *    est ignoré)
+     * 2. Ajout en fin de note des sections du layout encore absentes
+     * 3. Enregistrement de la nouvelle version dans le frontmatter
+     *
+     * @param content - Contenu actuel de la note
+     * @param options - Layout, versions et contexte
+     * @returns Nouveau contenu et détail des changements
+     */
+    static migrateNote(content: string, options: NoteMigrationOptions): NoteMigrationResult {
+        const level = options.headingLevel ?? ParsingConstants.SECTION_HEADER_LEVEL;
+        const structure = SectionUtils.splitNote(content, level);
+        const renamed: NoteMigrationResult['renamed'] = [];
+        const notes: string[] = [];
+
+        const pending = options.migrations
+            .filter(migration => migration.version > options.fromVersion && migration.version <= options.toVersion)
+            .sort((a, b) => a.version - b.version);
+
+        for (const migration of pending) {
+            if (migration.description) {
+                notes.push(`v${migration.version} : ${migration.description}`);
+            }
+
+            for (const [from, to] of Object.entries(migration.renames || {})) {
+                const section = structure.sections.find(candidate => SectionMatcher.matches(candidate.name, from));
+                const taken = structure.sections.some(candidate => SectionMatcher.matches(candidate.name, to));
+                if (!section || taken) continue;
+
+                renamed.push({ from: section.name, to });
+                section.heading = ParsingConstants.formatSectionHeader(to, level);
+                section.name = to;
+            }
+        }
+
+        const names = structure.sections.map(section => section.name);
+        const missing = options.blocks.filter(block => SectionUtils.matchSection(block, names) === undefined);
+
+        structure.frontmatter = SectionUtils.setFrontmatterValue(
+            structure.frontmatter, MigrationUtils.VERSION_KEY, String(options.toVersion));
+
+        return {
+            content: SectionUtils.appendSections(
+                SectionUtils.renderNote(structure), missing, options.context, options.language, level),
+            renamed,
+            added: missing.map(block => SectionUtils.localizedTitle(block, options.language)),
+            notes
+        };
+    }
+}
@@ -0,0 +1,125 @@
+import { BoardArrangement, BoardLayout, GridSize, LayoutBreakpoint } from '../types';
+import { SectionMatcher } from './matcher';
+
+/**
+ * Disposition des boards selon la largeur de la vue
+ *
+ * Un layout peut déclarer des variantes par largeur maximale ; sans
+ * variante, les blocs sont réorganisés automatiquement : empilés sous
+ * NARROW_WIDTH, sur deux colonnes sous MEDIUM_WIDTH.
+ */
+export class ResponsiveUtils {
+
+    // ===============================================================
+    // SEUILS
+    // ===============================================================
+
+    /** Largeur (px) sous laquelle les blocs sont empilés */
+    static readonly NARROW_WIDTH = 500;
+
+    /** Largeur (px) sous laquelle les blocs passent sur deux colonnes */
+    static readonly MEDIUM_WIDTH = 900;
+
+    // ===============================================================
+    // DISPOSITION
+    // ===============================================================
+
+    /**
+     * Choisit la disposition d'un board pour une largeur de vue
+     *
+     * PRIORITÉ :
+     * 1. Variante déclarée de plus petite largeur maximale couvrant la vue
+     * 2. Sans variante déclarée : reflow automatique (empilé / deux colonnes)
+     * 3. Grille complète du layout
+     *
+     * @param blocks - Blocs du layout
+     * @param grid - Dimensions de la grille du layout
+     * @param breakpoints - Variantes déclarées par le layout
+     * @param width - Largeur de la vue en pixels
+     */
+    static arrange(
+        blocks: BoardLayout[],
+        grid: GridSize,
+        breakpoints: LayoutBreakpoint[] | undefined,
+        width: number
+    ): BoardArrangement {
+        if (breakpoints && breakpoints.length > 0) {
+            const variant = [...breakpoints]
+                .sort((a, b) => a.maxWidth - b.maxWidth)
+                .find(breakpoint => width <= breakpoint.maxWidth);
+            return variant
+                ? ResponsiveUtils.applyVariant(blocks, grid, variant)
+                : { key: 'full', columns: grid.columns, blocks, reflowed: false };
+        }
+
+        if (width < ResponsiveUtils.NARROW_WIDTH) {
+            return { key: 'stacked', columns: 1, blocks: ResponsiveUtils.stack(blocks), reflowed: true };
+        }
+        if (width < ResponsiveUtils.MEDIUM_WIDTH) {
+            return { key: 'two-columns', columns: 2, blocks: ResponsiveUtils.twoColumns(blocks, grid), reflowed: true };
+        }
+
+        return { key: 'full', columns: grid.columns, blocks, reflowed: false };
+    }
+
+    /**
+     * Ordre de lecture : de haut en bas, puis de gauche à droite
+     */
+    static readingOrder(blocks: BoardLayout[]): BoardLayout[] {
+        return [...blocks].sort((a, b) => a.y - b.y || a.x - b.x);
+    }
+
+    /**
+     * Empile les blocs sur une colonne, dans l'ordre de lecture
+     */
+    static stack(blocks: BoardLayout[]): BoardLayout[] {
+        let y = 0;
+        return ResponsiveUtils.readingOrder(blocks).map(block => {
+            const placed = { ...block, x: 0, y, w: 1 };
+            y += block.h;
+            return placed;
+        });
+    }
+
+    /**
+     * Répartit les blocs sur deux colonnes, dans l'ordre de lecture
+     *
+     * Chaque bloc va dans la colonne la moins haute (la gauche en cas
+     * d'égalité) ; un bloc occupant plus de la moitié de la grille d'origine
+     * reste sur toute la largeur, sous les deux colonnes.
+     */
+    static twoColumns(blocks: BoardLayout[], grid: GridSize): BoardLayout[] {
+        const bottoms = [0, 0];
+        return ResponsiveUtils.readingOrder(blocks).map(block => {
+            if (block.w > grid.columns / 2) {
+                const y = Math.max(...bottoms);
+                bottoms[0] = bottoms[1] = y + block.h;
+                return { ...block, x: 0, y, w: 2 };
+            }
+
+            const column = bottoms[0] <= bottoms[1] ? 0 : 1;
+            const y = bottoms[column];
+            bottoms[column] += block.h;
+            return { ...block, x: column, y, w: 1 };
+        });
+    }
+
+    /**
+     * Repositionne les blocs selon une variante (blocs absents masqués)
+     */
+    private static applyVariant(blocks: BoardLayout[], grid: GridSize, variant: LayoutBreakpoint): BoardArrangement {
+        const positioned = blocks
+            .map(block => {
+                const position = variant.blocks.find(candidate => SectionMatcher.matches(candidate.title, block.title));
+                return position ? { ...block, x: position.x, y: position.y, w: position.w, h: position.h } : undefined;
+            })
+            .filter((block): block is BoardLayout => block !== undefined);
+
+        return {
+            key: `variant:${variant.maxWidth}`,
+            columns: variant.columns ?? grid.columns,
+            blocks: positioned,
+            reflowed: false
+        };
+    }
+}
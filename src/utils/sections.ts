@@ -0,0 +1,564 @@
+import type { HeadingCache } from 'obsidian';
+import { BoardLayout, NoteNormalization, NoteSection, NoteStructure, SectionMapping, SectionRange, TemplateContext } from '../types';
+import { ParsingConstants } from '../constants/parsing';
+import { TemplateUtils } from './template';
+import { MarkdownUtils } from './markdown';
+import { SectionMatcher } from './matcher';
+
+/**
+ * Utilitaires de manipulation de la structure d'une note board
+ * Découpage en frontmatter / préambule / sections et reconstruction
+ */
+export class SectionUtils {
+
+    // ===============================================================
+    // DÉCOUPAGE ET RENDU
+    // ===============================================================
+
+    /**
+     * Découpe une note en frontmatter, préambule et sections
+     * Seuls les titres du niveau des sections délimitent les sections ; les
+     * autres titres, et ceux des blocs de code, de maths ou des commentaires
+     * (voir MarkdownUtils.textLines), font partie du contenu.
+     *
+     * @param content - Contenu brut de la note
+     * @param level - Niveau de titre des sections (2 = ## par défaut)
+     * @returns Structure dont renderNote() redonne exactement le contenu
+     */
+    static splitNote(content: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): NoteStructure {
+        const lines = content.split('\n');
+        const text = MarkdownUtils.textLines(lines);
+        const structure: NoteStructure = { frontmatter: [], preamble: [], sections: [] };
+
+        let index = 0;
+        if (ParsingConstants.FRONTMATTER_DELIMITER.test(lines[0] ?? '')) {
+            const closing = lines.findIndex((line, i) => i > 0 && ParsingConstants.FRONTMATTER_DELIMITER.test(line));
+            if (closing > 0) {
+                structure.frontmatter = lines.slice(0, closing + 1);
+                index = closing + 1;
+            }
+        }
+
+        let current: NoteSection | null = null;
+        for (; index < lines.length; index++) {
+            const line = lines[index];
+            const name = text[index] ? ParsingConstants.extractSectionName(line, level) : null;
+
+            if (name !== null) {
+                if (current) current.end = index;
+                current = { name, heading: line, start: index, end: lines.length, lines: [] };
+                structure.sections.push(current);
+            } else if (current) {
+                current.lines.push(line);
+            } else {
+                structure.preamble.push(line);
+            }
+        }
+
+        return structure;
+    }
+
+    /**
+     * Reconstruit le contenu d'une note depuis sa structure
+     */
+    static renderNote(structure: NoteStructure): string {
+        return [
+            ...structure.frontmatter,
+            ...structure.preamble,
+            ...structure.sections.flatMap(section => [section.heading, ...section.lines])
+        ].join('\n');
+    }
+
+    /**
+     * Remplace (ou ajoute) une clé du frontmatter
+     *
+     * Les lignes de continuation de l'ancienne valeur (liste ou objet YAML
+     * indenté, ex: grille inline) sont retirées avec la clé.
+     *
+     * @param frontmatter - Lignes du frontmatter, délimiteurs inclus (peut être vide)
+     * @param key - Clé à écrire
+     * @param value - Valeur YAML déjà formatée
+     * @returns Nouvelles lignes du frontmatter
+     */
+    static setFrontmatterValue(frontmatter: string[], key: string, value: string): string[] {
+        const entry = `${key}: ${value}`;
+        if (frontmatter.length < 2) {
+            return ['---', entry, '---'];
+        }
+
+        const body = frontmatter.slice(1, -1);
+        const keyRegex = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+        const start = body.findIndex(line => keyRegex.test(line));
+        if (start < 0) {
+            return [frontmatter[0], ...body, entry, frontmatter[frontmatter.length - 1]];
+        }
+
+        let end = start + 1;
+        while (end < body.length && /^(\s+|-\s|-$)/.test(body[end])) {
+            end++;
+        }
+
+        body.splice(start, end - start, entry);
+        return [frontmatter[0], ...body, frontmatter[frontmatter.length - 1]];
+    }
+
+    /**
+     * Ajoute en fin de note une section par bloc, avec son contenu initial
+     * @param content - Contenu actuel de la note
+     * @param blocks - Blocs dont la section est à créer
+     * @param context - Valeurs des variables du contenu initial
+     * @param language - Langue des titres des sections créées
+     * @param level - Niveau de titre des sections créées
+     */
+    static appendSections(
+        content: string,
+        blocks: BoardLayout[],
+        context: TemplateContext,
+        language?: string,
+        level: number = ParsingConstants.SECTION_HEADER_LEVEL
+    ): string {
+        const newSections = blocks.flatMap(block => {
+            const section = SectionUtils.createSection(block, context, language, level);
+            return ['', section.heading, ...section.lines];
+        });
+
+        return [...content.split('\n'), ...newSections].join('\n');
+    }
+
+    /**
+     * Nouvelle section pour un bloc : titre localisé et contenu du modèle
+     */
+    private static createSection(
+        block: BoardLayout,
+        context: TemplateContext,
+        language?: string,
+        level: number = ParsingConstants.SECTION_HEADER_LEVEL
+    ): NoteSection {
+        const name = SectionUtils.localizedTitle(block, language);
+        return {
+            name,
+            heading: ParsingConstants.formatSectionHeader(name, level),
+            start: 0,
+            end: 0,
+            lines: ['', ...(block.content ? [TemplateUtils.render(block.content, context), ''] : ['', ''])]
+        };
+    }
+
+    // ===============================================================
+    // EMPLACEMENT DES SECTIONS
+    // ===============================================================
+
+    /**
+     * Lignes et positions de chaque section d'une note
+     *
+     * Une section se termine au titre de section suivant ou à un titre de
+     * rang supérieur ; les titres des blocs de code, de maths et des
+     * commentaires sont ignorés (voir MarkdownUtils.textLines).
+     *
+     * @param content - Contenu brut de la note
+     * @param level - Niveau de titre des sections
+     * @returns Sections dans l'ordre de la note
+     */
+    static locateSections(content: string, level: number = ParsingConstants.SECTION_HEADER_LEVEL): SectionRange[] {
+        const lines = content.split('\n');
+        const text = MarkdownUtils.textLines(lines);
+        const ranges: SectionRange[] = [];
+
+        let current: SectionRange | null = null;
+        let offset = 0;
+        for (let index = 0; index < lines.length; offset += lines[index].length + 1, index++) {
+            const line = lines[index];
+            if (!text[index] || !ParsingConstants.endsSection(line, level)) continue;
+
+            if (current) {
+                current.end = index;
+                current.endOffset = offset;
+                current = null;
+            }
+
+            const name = ParsingConstants.extractSectionName(line, level);
+            if (name !== null) {
+                current = {
+                    name,
+                    start: index,
+                    end: lines.length,
+                    startOffset: offset,
+                    contentOffset: Math.min(offset + line.length + 1, content.length),
+                    endOffset: content.length
+                };
+                ranges.push(current);
+            }
+        }
+
+        return ranges;
+    }
+
+    /**
+     * Lignes et positions de chaque section d'après les titres du cache de
+     * métadonnées d'Obsidian, sans relire la note ligne par ligne
+     *
+     * Le cache n'est utilisé que s'il correspond au contenu : chaque titre
+     * doit se trouver, à la position indiquée, en début de ligne et au bon
+     * niveau, et rien ne doit suivre la fin du dernier bloc connu. Les titres
+     * soulignés (=== / ---) et ceux qui ne commencent pas une ligne (citation,
+     * callout) ne sont pas des sections, comme pour locateSections.
+     *
+     * @param content - Contenu brut de la note
+     * @param headings - Titres du cache (CachedMetadata.headings)
+     * @param level - Niveau de titre des sections
+     * @param contentEnd - Fin du dernier bloc du cache (CachedMetadata.sections)
+     * @returns Sections dans l'ordre de la note, null si le cache est périmé
+     */
+    static locateSectionsFromHeadings(
+        content: string,
+        headings: HeadingCache[],
+        level: number = ParsingConstants.SECTION_HEADER_LEVEL,
+        contentEnd?: number
+    ): SectionRange[] | null {
+        if (contentEnd !== undefined && (contentEnd > content.length || content.slice(contentEnd).trim())) {
+            return null;
+        }
+
+        const ranges: SectionRange[] = [];
+        let current: SectionRange | null = null;
+
+        for (const heading of headings) {
+            const { start, end } = heading.position;
+            if (start.col > 0 || heading.level > level) continue;
+
+            const line = content.slice(start.offset, end.offset);
+            const atLineStart = start.offset === 0 || content.charAt(start.offset - 1) === '\n';
+            const atLineEnd = end.offset === content.length || content.charAt(end.offset) === '\n';
+            if (!line.startsWith('#')) {
+                if (/\n\s*(=+|-+)\s*$/.test(line)) continue; // Titre souligné
+                return null;
+            }
+            if (!atLineStart || !atLineEnd || ParsingConstants.getHeadingLevel(line) !== heading.level) {
+                return null;
+            }
+
+            if (current) {
+                current.end = start.line;
+                current.endOffset = start.offset;
+                current = null;
+            }
+
+            const name = ParsingConstants.extractSectionName(line, level);
+            if (name !== null) {
+                current = {
+                    name,
+                    start: start.line,
+                    end: -1,
+                    startOffset: start.offset,
+                    contentOffset: Math.min(end.offset + 1, content.length),
+                    endOffset: content.length
+                };
+                ranges.push(current);
+            }
+        }
+
+        // Dernière section : jusqu'à la fin de la note
+        if (current) {
+            let lineCount = 1;
+            for (let index = content.indexOf('\n'); index >= 0; index = content.indexOf('\n', index + 1)) {
+                lineCount++;
+            }
+            current.end = lineCount;
+        }
+
+        return ranges;
+    }
+
+    /**
+     * Remplace le contenu d'une section, sans toucher au reste de la note
+     *
+     * Le titre est conservé ; le nouveau contenu est séparé du titre suivant
+     * par un retour à la ligne.
+     *
+     * @param content - Contenu brut de la note
+     * @param range - Emplacement de la section, calculé sur ce contenu
+     * @param sectionContent - Nouveau contenu de la section, sans le titre
+     */
+    static replaceSectionContent(content: string, range: SectionRange, sectionContent: string): string {
+        const headingIsLastLine = content.charAt(range.contentOffset - 1) !== '\n';
+        const hasNextLine = range.endOffset < content.length;
+
+        return content.slice(0, range.contentOffset) +
+            (headingIsLastLine ? '\n' : '') +
+            sectionContent +
+            (hasNextLine ? '\n' : '') +
+            content.slice(range.endOffset);
+    }
+
+    // ===============================================================
+    // SECTIONS EN DOUBLE
+    // ===============================================================
+
+    /**
+     * Regroupe les sections portant le même nom (voir SectionMatcher.key)
+     * @returns Un groupe par nom présent plusieurs fois, dans l'ordre de la note
+     */
+    static findDuplicates<T extends { name: string }>(sections: T[]): T[][] {
+        const groups = new Map<string, T[]>();
+        for (const section of sections) {
+            const key = SectionMatcher.key(section.name);
+            groups.set(key, [...(groups.get(key) || []), section]);
+        }
+        return Array.from(groups.values()).filter(group => group.length > 1);
+    }
+
+    /**
+     * Fusionne des sections dans la première : leurs contenus y sont mis bout
+     * à bout (séparés par une ligne vide) et les autres sections supprimées
+     *
+     * @param content - Contenu brut de la note
+     * @param ranges - Sections à fusionner, dans l'ordre de la note, calculées sur ce contenu
+     */
+    static mergeSections(content: string, ranges: SectionRange[]): string {
+        const [first, ...others] = ranges;
+        if (!first) return content;
+
+        const merged = ranges
+            .map(range => content.slice(range.contentOffset, range.endOffset).trim())
+            .filter(Boolean)
+            .join('\n\n');
+
+        // Suppression depuis la fin : les positions précédentes restent valides
+        let result = content;
+        for (const range of [...others].reverse()) {
+            result = result.slice(0, range.startOffset) + result.slice(range.endOffset);
+        }
+
+        return SectionUtils.replaceSectionContent(result, first, merged ? `${merged}\n` : '');
+    }
+
+    /**
+     * Remplace la ligne de titre d'une section
+     * @param content - Contenu brut de la note
+     * @param range - Section à renommer, calculée sur ce contenu
+     * @param heading - Nouvelle ligne de titre (voir ParsingConstants.formatSectionHeader)
+     */
+    static renameSection(content: string, range: SectionRange, heading: string): string {
+        const lineEnd = content.indexOf('\n', range.startOffset);
+        return content.slice(0, range.startOffset) +
+            heading +
+            (lineEnd < 0 ? '' : content.slice(lineEnd));
+    }
+
+    /**
+     * Donne à une section le nom d'une autre section, avec laquelle elle est
+     * fusionnée si celle-ci est présente (voir mergeSections)
+     *
+     * @param content - Contenu brut de la note
+     * @param range - Section à rattacher, calculée sur ce contenu
+     * @param targetName - Nom de la section d'arrivée
+     * @param level - Niveau de titre des sections
+     */
+    static assignSection(content: string, range: SectionRange, targetName: string, level: number): string {
+        const renamed = SectionUtils.renameSection(content, range, ParsingConstants.formatSectionHeader(targetName, level));
+        const key = SectionMatcher.key(targetName);
+        const occurrences = SectionUtils.locateSections(renamed, level)
+            .filter(section => SectionMatcher.key(section.name) === key);
+
+        return occurrences.length > 1 ? SectionUtils.mergeSections(renamed, occurrences) : renamed;
+    }
+
+    // ===============================================================
+    // CORRESPONDANCE BLOCS / SECTIONS
+    // ===============================================================
+
+    /**
+     * Titres reconnus pour un bloc, par ordre de priorité :
+     * titre de référence, titres localisés, alias
+     */
+    static blockTitles(block: BoardLayout): string[] {
+        const titles = [
+            block.title,
+            ...Object.values(block.titles || {}),
+            ...(block.aliases || [])
+        ];
+        return Array.from(new Set(titles.filter(title => typeof title === 'string' && title.trim())));
+    }
+
+    /**
+     * Titre à utiliser pour créer la section d'un bloc dans une langue
+     * @param language - Code de langue ('' ou langue absente = titre de référence)
+     */
+    static localizedTitle(block: BoardLayout, language?: string): string {
+        return (language && block.titles?.[language]) || block.title;
+    }
+
+    /**
+     * Trouve la section d'une note correspondant à un bloc
+     *
+     * Noms comparés par SectionMatcher (casse, accents, emoji et ponctuation
+     * finale selon les paramètres). Si plusieurs sections correspondent, celle du titre le plus prioritaire gagne
+     * (voir blockTitles).
+     *
+     * @param block - Bloc du layout
+     * @param sectionNames - Noms des sections présentes dans la note
+     * @returns Nom exact de la section trouvée, undefined sinon
+     */
+    static matchSection(block: BoardLayout, sectionNames: string[]): string | undefined {
+        return SectionMatcher.find(SectionUtils.blockTitles(block), sectionNames);
+    }
+
+    // ===============================================================
+    // CHANGEMENT DE LAYOUT
+    // ===============================================================
+
+    /**
+     * Propose une correspondance par titre (alias et titres localisés compris)
+     * @param sections - Noms des sections existantes
+     * @param blocks - Blocs du nouveau layout
+     */
+    static suggestMapping(sections: string[], blocks: BoardLayout[]): SectionMapping {
+        const mapping: SectionMapping = {};
+
+        for (const section of sections) {
+            mapping[section] = blocks.find(block => SectionUtils.matchSection(block, [section]) !== undefined)?.title;
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Réécrit une note pour un nouveau layout sans perdre de contenu
+     *
+     * RÈGLES :
+     * - Le frontmatter "agile-board" est remplacé, les autres clés conservées
+     * - Le préambule (texte avant la première section) est conservé
+     * - Les sections du nouveau layout sont écrites dans l'ordre des blocs,
+     *   avec le contenu des sections qui leur sont associées (fusionnées
+     *   dans l'ordre de la note si plusieurs)
+     * - Les sections non associées sont conservées telles quelles à la fin
+     *
+     * @param content - Contenu actuel de la note
+     * @param layoutName - Nom du nouveau layout
+     * @param blocks - Blocs du nouveau layout
+     * @param mapping - Ancienne section → bloc du nouveau layout
+     * @param language - Langue des titres des sections écrites
+     * @param levels - Niveaux de titre des sections lues (from) et écrites (to)
+     * @returns Nouveau contenu de la note
+     */
+    static applyLayoutChange(
+        content: string,
+        layoutName: string,
+        blocks: BoardLayout[],
+        mapping: SectionMapping,
+        language?: string,
+        levels: { from: number; to: number } = {
+            from: ParsingConstants.SECTION_HEADER_LEVEL,
+            to: ParsingConstants.SECTION_HEADER_LEVEL
+        }
+    ): string {
+        const structure = SectionUtils.splitNote(content, levels.from);
+        const trimBlankLines = (lines: string[]) => {
+            let start = 0;
+            let end = lines.length;
+            while (start < end && !lines[start].trim()) start++;
+            while (end > start && !lines[end - 1].trim()) end--;
+            return lines.slice(start, end);
+        };
+
+        const sections: NoteSection[] = blocks.map(block => {
+            const sources = structure.sections.filter(section => mapping[section.name] === block.title);
+            const merged = sources
+                .map(section => trimBlankLines(section.lines))
+                .filter(lines => lines.length > 0)
+                .flatMap((lines, index) => index > 0 ? ['', ...lines] : lines);
+
+            return {
+                name: SectionUtils.localizedTitle(block, language),
+                heading: ParsingConstants.formatSectionHeader(SectionUtils.localizedTitle(block, language), levels.to),
+                start: 0,
+                end: 0,
+                lines: ['', ...merged, '']
+            };
+        });
+
+        const targets = new Set(blocks.map(block => block.title));
+        const unmapped = structure.sections.filter(section => {
+            const target = mapping[section.name];
+            return !target || !targets.has(target);
+        });
+
+        return SectionUtils.renderNote({
+            frontmatter: SectionUtils.setFrontmatterValue(structure.frontmatter, 'agile-board', layoutName),
+            preamble: structure.preamble,
+            sections: [...sections, ...unmapped]
+        });
+    }
+
+    // ===============================================================
+    // NORMALISATION
+    // ===============================================================
+
+    /**
+     * Réordonne les sections d'une note selon son layout
+     *
+     * RÈGLES :
+     * - Les sections associées à un bloc (voir matchSection) suivent l'ordre
+     *   des blocs ; une section absente est créée à sa place, avec le
+     *   contenu du modèle du bloc
+     * - Les autres sections (hors layout, occurrences en double) suivent,
+     *   dans leur ordre d'origine
+     * - Frontmatter et texte avant la première section sont conservés tels quels
+     * - Chaque section reste séparée de la suivante par une ligne vide ; la
+     *   fin de la note (retour à la ligne final) est conservée
+     *
+     * Une note déjà normalisée est rendue à l'identique (after === before).
+     *
+     * @param content - Contenu brut de la note
+     * @param blocks - Blocs du layout, dans l'ordre
+     * @param context - Variables des modèles des sections créées
+     * @param language - Langue des titres des sections créées
+     * @param level - Niveau de titre des sections
+     */
+    static normalizeNote(
+        content: string,
+        blocks: BoardLayout[],
+        context: TemplateContext,
+        language?: string,
+        level: number = ParsingConstants.SECTION_HEADER_LEVEL
+    ): NoteNormalization {
+        const structure = SectionUtils.splitNote(content, level);
+        const remaining = [...structure.sections];
+        const added: string[] = [];
+
+        const ordered = blocks.map(block => {
+            const name = SectionUtils.matchSection(block, remaining.map(section => section.name));
+            if (name !== undefined) {
+                return remaining.splice(remaining.findIndex(section => section.name === name), 1)[0];
+            }
+            added.push(SectionUtils.localizedTitle(block, language));
+            return SectionUtils.createSection(block, context, language, level);
+        });
+        const sections = [...ordered, ...remaining];
+
+        const isBlank = (line: string) => !line.trim();
+        const withoutTrailingBlanks = (lines: string[]) => {
+            let end = lines.length;
+            while (end > 0 && isBlank(lines[end - 1])) end--;
+            return lines.slice(0, end);
+        };
+        const lastLines = structure.sections[structure.sections.length - 1]?.lines ?? [];
+        const ending = lastLines.slice(withoutTrailingBlanks(lastLines).length);
+
+        const spaced = sections.map((section, index) => {
+            if (index === sections.length - 1) {
+                return { ...section, lines: [...withoutTrailingBlanks(section.lines), ...ending] };
+            }
+            const last = section.lines[section.lines.length - 1];
+            return last === undefined || !isBlank(last) ? { ...section, lines: [...section.lines, ''] } : section;
+        });
+
+        const kept = sections.filter(section => structure.sections.includes(section));
+        return {
+            before: content,
+            after: SectionUtils.renderNote({ ...structure, sections: spaced }),
+            added,
+            reordered: kept.some((section, index) => section !== structure.sections[index])
+        };
+    }
+}
@@ -7,6 +7,14 @@ export { BoardSettings } from '../types';
 export const DEFAULT_SETTINGS: BoardSettings = {
     autoCreateSections: true,
     defaultLayouts: ['layout_kanban', 'layout_eisenhower', 'layout_gtd'],
+    layoutsFolder: 'Agile Board/Layouts',     // Dossier des layouts personnalisés
+    sectionLanguage: '',                      // Titres de sections de référence (français)
+    sectionMatching: {                        // Titres reconnus malgré casse, accents, emoji et ponctuation
+        ignoreCase: true,
+        ignoreAccents: true,
+        ignoreEmoji: true,
+        ignoreTrailingPunctuation: true
+    },
     debug: {
         enabled: false,                         // Debug désactivé par défaut (production)
         logLevel: LogLevel.WARN,               // Niveau WARN par défaut (moins de bruit)
@@ -0,0 +1,73 @@
+import { TemplateContext } from '../types';
+
+/**
+ * Contenu initial des blocs (BoardLayout.content)
+ * Remplacement des variables {{date}}, {{title}}, {{week}} et {{layout}}
+ */
+export class TemplateUtils {
+
+    // ===============================================================
+    // VARIABLES
+    // ===============================================================
+
+    /** Variable entre doubles accolades, espaces tolérés ({{ date }}) */
+    static readonly VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+    // ===============================================================
+    // CONTEXTE ET RENDU
+    // ===============================================================
+
+    /**
+     * Construit les valeurs des variables pour une note
+     * @param title - Nom de la note (sans extension)
+     * @param layout - Nom du layout
+     * @param date - Date de référence (maintenant par défaut)
+     * @example createContext("Sprint 12", "layout_kanban")
+     * // { date: "2026-10-19", title: "Sprint 12", week: "2026-W43", layout: "layout_kanban" }
+     */
+    static createContext(title: string, layout: string, date: Date = new Date()): TemplateContext {
+        return {
+            date: TemplateUtils.formatDate(date),
+            title,
+            week: TemplateUtils.formatWeek(date),
+            layout
+        };
+    }
+
+    /**
+     * Remplace les variables d'un contenu de bloc
+     *
+     * Les variables inconnues sont laissées telles quelles, pour ne pas
+     * casser une syntaxe d'un autre plugin (Templater, Dataview...).
+     */
+    static render(template: string, context: TemplateContext): string {
+        return template.replace(TemplateUtils.VARIABLE_REGEX, (match, name: string) =>
+            Object.prototype.hasOwnProperty.call(context, name)
+                ? context[name as keyof TemplateContext]
+                : match);
+    }
+
+    // ===============================================================
+    // FORMATS DE DATE
+    // ===============================================================
+
+    /**
+     * Date locale au format YYYY-MM-DD
+     */
+    static formatDate(date: Date): string {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    /**
+     * Semaine ISO 8601 au format YYYY-Www (la semaine 1 contient le premier jeudi)
+     */
+    static formatWeek(date: Date): string {
+        const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+        thursday.setUTCDate(thursday.getUTCDate() + 3 - (thursday.getUTCDay() + 6) % 7);
+
+        const year = thursday.getUTCFullYear();
+        const week = Math.ceil(((thursday.getTime() - Date.UTC(year, 0, 1)) / 86400000 + 1) / 7);
+        return `${year}-W${String(week).padStart(2, '0')}`;
+    }
+}
@@ -0,0 +1,98 @@
+import { BoardLayout } from '../types';
+
+/**
+ * Génération des miniatures SVG des layouts
+ * Les miniatures sont de simples chaînes SVG, mises en cache par le LayoutService
+ */
+export class ThumbnailUtils {
+
+    // ===============================================================
+    // DIMENSIONS
+    // ===============================================================
+
+    /** Largeur d'une colonne de la grille dans la miniature (unités SVG) */
+    static readonly CELL_WIDTH = 10;
+
+    /** Hauteur d'une ligne de la grille (les lignes sont plus basses que les colonnes) */
+    static readonly CELL_HEIGHT = 5;
+
+    /** Nombre de colonnes de la grille par défaut (la largeur de la miniature en dépend) */
+    static readonly COLUMNS = 24;
+
+    /** Hauteur minimale représentée, pour ne pas écraser les layouts très plats */
+    static readonly MIN_ROWS = 12;
+
+    /** Taille du texte des titres (unités SVG) */
+    static readonly FONT_SIZE = 9;
+
+    // ===============================================================
+    // GÉNÉRATION
+    // ===============================================================
+
+    /**
+     * Génère la miniature SVG d'un layout : un rectangle titré par bloc
+     * Quel que soit le nombre de colonnes du layout, la miniature garde la
+     * largeur d'une grille de 24 colonnes : les cellules sont élargies ou
+     * rétrécies, la hauteur des lignes reste fixe.
+     *
+     * @param blocks - Blocs du layout (déjà validés)
+     * @param columns - Nombre de colonnes de la grille du layout
+     * @returns Balise <svg> complète, stylée via les classes agile-board-thumbnail-*
+     */
+    static generateSvg(blocks: BoardLayout[], columns: number = ThumbnailUtils.COLUMNS): string {
+        const { CELL_HEIGHT, COLUMNS, MIN_ROWS, FONT_SIZE } = ThumbnailUtils;
+        const width = COLUMNS * ThumbnailUtils.CELL_WIDTH;
+        const cellWidth = width / columns;
+        const rows = Math.max(MIN_ROWS, ...blocks.map(block => block.y + block.h));
+        const height = rows * CELL_HEIGHT;
+
+        const rects = blocks.map(block => {
+            const x = block.x * cellWidth;
+            const y = block.y * CELL_HEIGHT;
+            const w = block.w * cellWidth;
+            const h = block.h * CELL_HEIGHT;
+            const title = ThumbnailUtils.fitTitle(block.title, w);
+
+            return `<g><title>${ThumbnailUtils.escapeXml(block.title)}</title>` +
+                `<rect class="agile-board-thumbnail-block" x="${x + 1}" y="${y + 1}" ` +
+                `width="${w - 2}" height="${h - 2}" rx="2"/>` +
+                (h >= FONT_SIZE * 1.5 && title
+                    ? `<text class="agile-board-thumbnail-title" x="${x + w / 2}" y="${y + h / 2}" ` +
+                      `font-size="${FONT_SIZE}" text-anchor="middle" dominant-baseline="middle">` +
+                      `${ThumbnailUtils.escapeXml(title)}</text>`
+                    : '') +
+                '</g>';
+        });
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" class="agile-board-thumbnail" ` +
+            `viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid meet">` +
+            rects.join('') +
+            '</svg>';
+    }
+
+    // ===============================================================
+    // MÉTHODES UTILITAIRES
+    // ===============================================================
+
+    /**
+     * Tronque un titre pour qu'il tienne dans la largeur d'un bloc
+     * (estimation : un caractère ≈ 0,6 × taille de police)
+     */
+    private static fitTitle(title: string, width: number): string {
+        const maxChars = Math.floor((width - 4) / (ThumbnailUtils.FONT_SIZE * 0.6));
+        if (maxChars < 2) return '';
+        return title.length > maxChars ? `${title.slice(0, maxChars - 1)}…` : title;
+    }
+
+    /**
+     * Échappe les caractères spéciaux XML d'un texte
+     */
+    static escapeXml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
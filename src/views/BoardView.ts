@@ -1,8 +1,17 @@
-import { FileView, TFile } from 'obsidian';
-import { BoardLayout, FileSection } from '../types';
+import { EventRef, FileView, MarkdownView, Notice, TFile, setIcon } from 'obsidian';
+import { BoardLayout, FileSection, GridSize, LayoutBreakpoint } from '../types';
 import { MarkdownFrame } from '../components/MarkdownFrame';
+import { MigrationReportModal } from '../components/MigrationReportModal';
+import { DuplicateSectionsModal } from '../components/DuplicateSectionsModal';
+import { SectionConflictModal } from '../components/SectionConflictModal';
+import { AgileBoardError } from '../errors/AgileBoardError';
+import { DuplicateSection } from '../services/FileService';
 import type AgileBoardPlugin from '../main';
 import { LoggerService } from '../services/LoggerService';
+import { SectionUtils } from '../utils/sections';
+import { SectionMatcher } from '../utils/matcher';
+import { BlockOptionsConstants } from '../constants/blockOptions';
+import { ResponsiveUtils } from '../utils/responsive';
 
 export const BOARD_VIEW_TYPE = 'agile-board-view';
 
@@ -12,6 +21,18 @@ export class BoardView extends FileView {
   private frames = new Map<string, MarkdownFrame>();
   private logger: LoggerService;
 
+  // Disposition selon la largeur de la vue (voir ResponsiveUtils)
+  private frameEls = new Map<string, HTMLElement>();
+  private arrangementSource: { blocks: BoardLayout[]; grid: GridSize; breakpoints?: LayoutBreakpoint[] } | null = null;
+  private arrangementKey = '';
+
+  // Sections en double de la note (signalées sur la frame concernée)
+  private duplicates: DuplicateSection[] = [];
+
+  // Contenu de chaque section au dernier affichage ou à la dernière sauvegarde
+  // (détection des modifications faites ailleurs)
+  private sectionBaselines = new Map<string, string>();
+
   constructor(leaf: any, plugin: AgileBoardPlugin) {
     super(leaf);
     this.plugin = plugin;
@@ -41,6 +62,14 @@ export class BoardView extends FileView {
     this.cleanup();
   }
 
+  /**
+   * Redimensionnement du panneau : les frames sont repositionnées sans
+   * être recréées, l'édition en cours est conservée
+   */
+  onResize(): void {
+    this.applyArrangement();
+  }
+
   // Méthode publique pour recharger le board
   async renderBoardLayout(): Promise<void> {
     this.logger.info('🎨 renderBoardLayout début');
@@ -73,20 +102,27 @@ export class BoardView extends FileView {
   private async renderWithServices(services: any): Promise<void> {
     try {
       const fileCache = this.app.metadataCache.getFileCache(this.file!);
-      const layoutName = fileCache?.frontmatter?.['agile-board'];
+      const layoutValue = fileCache?.frontmatter?.['agile-board'];
 
-      if (!layoutName) {
+      if (!layoutValue) {
         this.showError('Ce fichier n\'a pas de layout agile-board');
         return;
       }
 
-      const layout = services.layout.getModel(layoutName);
-      if (!layout) {
-        this.showError(`Layout "${layoutName}" non trouvé`);
+      // Layout enregistré ou grille inline propre à la note
+      const resolved = services.layout.resolveLayout(layoutValue, this.file!.path, fileCache?.frontmatter);
+      if (!resolved) {
+        this.showError(typeof layoutValue === 'string'
+          ? `Layout "${layoutValue}" non trouvé`
+          : 'Grille inline invalide (blocs hors limites ou en chevauchement)');
         return;
       }
+      const layout: BoardLayout[] = resolved.blocks;
+      const grid: GridSize = resolved.grid;
+      this.arrangementSource = { blocks: layout, grid, breakpoints: resolved.breakpoints };
 
       const analysis = await services.file.analyzeFile(this.file!);
+      this.duplicates = analysis.duplicateSections;
       
       // 🔧 CODE DE DEBUG - À placer ici quand les variables sont définies
       this.logger.debug('🔍 Layout analysis:');
@@ -105,14 +141,10 @@ export class BoardView extends FileView {
       }
 
       this.logger.verbose('🔍 Section matching:');
+      const sectionNames = analysis.existingSections.map(section => section.name);
       layout.forEach(block => {
-          const normalize = (str: string) => str.trim().toLowerCase();
-          analysis.existingSections.forEach(section => {
-              // Removed verbose comparison logging
-          });
-          const matchingSection = analysis.existingSections.find(
-              s => normalize(s.name) === normalize(block.title)
-          );
+          const matchingName = SectionUtils.matchSection(block, sectionNames);
+          const matchingSection = analysis.existingSections.find(s => s.name === matchingName);
           this.logger.verbose(`  Layout "${block.title}" → Section "${matchingSection?.name || 'NOT_FOUND'}"`);
           if (matchingSection) {
               this.logger.info('    Contenu section:', matchingSection);
@@ -130,12 +162,15 @@ export class BoardView extends FileView {
         name: section.name,
         content: section.content,
         lines: section.lines || section.content.split('\n'),
-        startLine: section.startLine || 0,
-        endLine: section.endLine || 0,
+        startLine: section.startLine,
+        endLine: section.endLine,
+        startOffset: section.startOffset,
+        endOffset: section.endOffset,
         isFromLayout: section.isFromLayout || true
       }));
 
-      await this.createBoard(layout, convertedSections);
+      const otherSections = convertedSections.filter(section => analysis.extraSections.includes(section.name));
+      await this.createBoard(layout, convertedSections, grid, otherSections);
       
     } catch (error) {
       this.logger.error('❌ Erreur dans renderWithServices:', error);
@@ -147,7 +182,7 @@ export class BoardView extends FileView {
   /**
    * Crée le tableau avec les sections
    */
-  private async createBoard(layout: BoardLayout[], sections: any[]): Promise<void> {
+  private async createBoard(layout: BoardLayout[], sections: any[], grid: GridSize, otherSections: any[] = []): Promise<void> {
     this.logger.debug('🏗️ Création du board avec ${layout.length} blocs et ${sections.length} sections',
       {
         layoutCount: layout.length,
@@ -156,12 +191,17 @@ export class BoardView extends FileView {
     );
     this.gridContainer = null;
     this.contentEl.empty();
+
+    // Sections hors layout : bandeau repliable au-dessus de la grille
+    if (otherSections.length > 0) {
+      this.renderOtherSections(layout, otherSections);
+    }
     
     // Créer le conteneur principal - styles gérés par CSS
     this.gridContainer = this.contentEl.createDiv('agile-board-grid');
     this.gridContainer.style.cssText =` 
       display: grid;
-      grid-template-columns: repeat(24, 1fr);
+      grid-template-columns: repeat(${grid.columns}, 1fr);
       gap: 0.5rem;
       padding: 1rem;
       height: 100%;
@@ -171,9 +211,11 @@ export class BoardView extends FileView {
     // HTML log removed for performance
 
     // Créer les frames pour chaque section
+    // Correspondance par titre, titre localisé ou alias du bloc
+    const sectionNames = sections.map(s => s.name);
     for (const block of layout) {
-      const normalize = (str: string) => str.trim().toLowerCase();
-      const section = sections.find(s => normalize(s.name) === normalize(block.title));
+      const sectionName = SectionUtils.matchSection(block, sectionNames);
+      const section = sections.find(s => s.name === sectionName);
       if (section) {
         await this.createFrame(block, section);
       } else {
@@ -181,6 +223,7 @@ export class BoardView extends FileView {
       }
     }
     
+    this.applyArrangement();
     this.logger.info('✅ Board créé avec succès');
   }
 
@@ -191,6 +234,7 @@ export class BoardView extends FileView {
     this.logger.info(`🎯 Création frame pour "${layout.title}"`);
     try {
       const frameContainer = this.gridContainer!.createDiv('agile-board-frame');
+      this.frameEls.set(layout.title, frameContainer);
       
       // Appliquer le positionnement CSS Grid
       frameContainer.style.gridColumn = `${layout.x + 1} / span ${layout.w}`;
@@ -203,13 +247,45 @@ export class BoardView extends FileView {
 
       this.logger.debug('🟦 Frame created:', {title: layout.title, position: `${layout.x},${layout.y},${layout.w}x${layout.h}`});
       // HTML logs removed for performance
-      // Titre de la section
-      const titleEl = frameContainer.createDiv('frame-title');
-      titleEl.textContent = layout.title;
-      titleEl.style.fontWeight = 'bold';
-      titleEl.style.marginBottom = '0.5rem';
-      titleEl.style.borderBottom = '1px solid var(--background-modifier-border)'; // Séparateur visuel
-      titleEl.style.color = 'var(--text-accent)';
+
+      // Options d'affichage du bloc (déjà validées par le LayoutService)
+      const options = layout.metadata || {};
+      const accentColor = options.color ? BlockOptionsConstants.resolveColor(options.color) : 'var(--text-accent)';
+      if (options.color) {
+        frameContainer.style.borderColor = accentColor;
+      }
+      frameContainer.toggleClass('is-read-only', !!options.readOnly);
+
+      // Titre de la section (sauf option hideTitle)
+      let titleEl: HTMLElement | null = null;
+      if (!options.hideTitle) {
+        titleEl = frameContainer.createDiv('frame-title');
+        if (options.icon) {
+          setIcon(titleEl.createSpan('frame-title-icon'), options.icon);
+        }
+        // Libellé d'affichage, sinon titre tel qu'écrit dans la note
+        titleEl.createSpan({ text: options.label || section.name });
+        if (options.readOnly) {
+          setIcon(titleEl.createSpan({ cls: 'frame-title-lock', attr: { 'aria-label': 'Lecture seule' } }), 'lock');
+        }
+        const openEl = titleEl.createSpan({ cls: 'frame-title-open', attr: { 'aria-label': 'Ouvrir dans l\'éditeur' } });
+        setIcon(openEl, 'file-text');
+        openEl.addEventListener('click', (event) => {
+          event.stopPropagation(); // Ne pas replier le bloc
+          this.openInEditor(section.name, section.startLine);
+        });
+        titleEl.style.fontWeight = 'bold';
+        titleEl.style.marginBottom = '0.5rem';
+        titleEl.style.borderBottom = '1px solid var(--background-modifier-border)'; // Séparateur visuel
+        titleEl.style.color = accentColor;
+      }
+
+      // Section en double : signalée avec accès à la résolution
+      const duplicate = this.duplicates.find(candidate =>
+        SectionMatcher.key(candidate.name) === SectionMatcher.key(section.name));
+      if (duplicate) {
+        this.renderDuplicateWarning(frameContainer, duplicate);
+      }
 
       // 2. CRÉER UN CONTENEUR DÉDIÉ POUR LE CONTENU
       const contentContainer = frameContainer.createDiv('frame-content');
@@ -218,13 +294,27 @@ export class BoardView extends FileView {
       contentContainer.style.overflowY = 'auto';
       contentContainer.style.padding = '0.5rem';
 
+      // Bloc repliable : le clic sur le titre bascule l'affichage du contenu
+      if (titleEl && options.collapsed) {
+        const titleBar = titleEl;
+        const setCollapsed = (collapsed: boolean) => {
+          frameContainer.toggleClass('is-collapsed', collapsed);
+          contentContainer.style.display = collapsed ? 'none' : '';
+        };
+        titleBar.addClass('is-collapsible');
+        titleBar.addEventListener('click', () => setCollapsed(!frameContainer.hasClass('is-collapsed')));
+        setCollapsed(true);
+      }
+
       // Préparer l'objet FileSection pour MarkdownFrame
       const frameSection: FileSection = {
-        start: section.startLine || 0,
-        end: section.endLine || 0,
+        start: section.startLine,
+        end: section.endLine,
         lines: section.lines || section.content.split('\n'),
         name: section.name,
-        content: section.content
+        content: section.content,
+        startOffset: section.startOffset,
+        endOffset: section.endOffset
       };
 
       this.logger.debug('🟦 Frame section added:', {name: frameSection.name, contentLength: frameSection.content?.length || 0});
@@ -234,9 +324,11 @@ export class BoardView extends FileView {
         contentContainer, // On passe le conteneur dédié, pas le cadre entier        
         this.file!,           
         frameSection,         
-        (content: string) => this.onFrameContentChanged(frameSection.name || section.name, content),
+        (content: string) => this.onFrameContentChanged(frameSection.name || section.name, content, frame),
         this.plugin.logger
       );
+      this.sectionBaselines.set(frameSection.name || section.name, section.content.trim());
+      frame.setReadOnly(!!options.readOnly);
       
       this.frames.set(layout.title, frame);
       this.logger.info(`✅ Frame "${layout.title}" créée`);
@@ -247,26 +339,254 @@ export class BoardView extends FileView {
     }
   }
 
+  /**
+   * Bandeau "Autres sections" : sections de la note absentes du layout
+   * 
+   * Replié par défaut. Chaque section y est éditable comme une frame et
+   * peut être rattachée à un bloc du layout ou devenir un bloc d'un layout
+   * personnalisé.
+   */
+  private renderOtherSections(layout: BoardLayout[], sections: any[]): void {
+    const trayEl = this.contentEl.createDiv('agile-board-tray');
+    const headerEl = trayEl.createDiv('agile-board-tray-header');
+    setIcon(headerEl.createSpan('agile-board-tray-chevron'), 'chevron-right');
+    headerEl.createSpan({ text: `Autres sections (${sections.length})` });
+    headerEl.addEventListener('click', () => trayEl.toggleClass('is-open', !trayEl.hasClass('is-open')));
+
+    const listEl = trayEl.createDiv('agile-board-tray-sections');
+    for (const section of sections) {
+      const sectionEl = listEl.createDiv('agile-board-tray-section');
+      const titleEl = sectionEl.createDiv('frame-title');
+      titleEl.createSpan({ text: section.name, cls: 'agile-board-tray-title' });
+
+      // Rattachement à un bloc du layout
+      const select = titleEl.createEl('select', { cls: 'dropdown' });
+      select.createEl('option', { text: 'Rattacher à…', value: '' });
+      layout.forEach(block => select.createEl('option', { text: `→ ${block.title}`, value: block.title }));
+      select.addEventListener('change', () => {
+        if (select.value) this.assignOtherSection(section.name, select.value);
+      });
+
+      const convertButton = titleEl.createEl('button', { text: '➕ Bloc', attr: { 'aria-label': 'Ajouter un bloc au layout pour cette section' } });
+      convertButton.addEventListener('click', () => this.convertOtherSection(section.name));
+
+      const openEl = titleEl.createSpan({ cls: 'frame-title-open', attr: { 'aria-label': 'Ouvrir dans l\'éditeur' } });
+      setIcon(openEl, 'file-text');
+      openEl.addEventListener('click', () => this.openInEditor(section.name, section.startLine));
+
+      const contentContainer = sectionEl.createDiv('frame-content');
+      const frame = new MarkdownFrame(
+        this.app,
+        contentContainer,
+        this.file!,
+        {
+          start: section.startLine,
+          end: section.endLine,
+          lines: section.lines,
+          name: section.name,
+          content: section.content,
+          startOffset: section.startOffset,
+          endOffset: section.endOffset
+        },
+        (content: string) => this.onFrameContentChanged(section.name, content, frame),
+        this.plugin.logger
+      );
+      this.sectionBaselines.set(section.name, section.content.trim());
+      this.frames.set(`tray:${section.name}`, frame);
+    }
+  }
+
+  /**
+   * Rattache une section hors layout à un bloc puis redessine le board
+   */
+  private async assignOtherSection(sectionName: string, blockTitle: string): Promise<void> {
+    try {
+      await this.plugin.services.file.assignSectionToBlock(this.file!, sectionName, blockTitle);
+      await this.renderBoardLayout();
+    } catch (error) {
+      this.logger.error(`❌ Erreur rattachement de la section "${sectionName}":`, error);
+      new Notice('❌ Impossible de rattacher la section');
+    }
+  }
+
+  /**
+   * Fait d'une section hors layout un bloc du layout de la note
+   * 
+   * Le bloc est ajouté au layout personnalisé de la note, ou à un layout
+   * personnalisé dérivé du layout intégré, que la note adopte alors.
+   * Le board est redessiné au rechargement des layouts ou du frontmatter.
+   */
+  private async convertOtherSection(sectionName: string): Promise<void> {
+    const services = this.plugin.services;
+    let ref: EventRef | undefined;
+    try {
+      const resolved = services.file.resolveLayout(this.file!);
+      if (resolved.inline) {
+        new Notice('⚠️ Grille inline : ajoutez le bloc dans le frontmatter de la note');
+        return;
+      }
+
+      const layoutName = await services.customLayouts.addBlock(resolved.name, sectionName, this.file!.basename);
+      if (layoutName !== resolved.name) {
+        // Redessiner une fois le nouveau frontmatter indexé
+        // (écoute retirée à la fermeture de la vue si l'index n'arrive jamais)
+        const file = this.file!;
+        const listener: EventRef = this.app.metadataCache.on('changed', changed => {
+          if (changed.path !== file.path) return;
+          this.app.metadataCache.offref(listener);
+          this.plugin.refreshBoardViews(file).catch(error =>
+            this.logger.error('❌ Erreur rafraîchissement du board:', error));
+        });
+        ref = listener;
+        this.registerEvent(listener);
+        await services.file.setNoteLayout(file, layoutName);
+      }
+      new Notice(`✅ Bloc "${sectionName}" ajouté au layout "${services.layout.getLayoutDisplayName(layoutName)}"`);
+    } catch (error) {
+      if (ref) this.app.metadataCache.offref(ref);
+      this.logger.error(`❌ Erreur conversion de la section "${sectionName}" en bloc:`, error);
+      new Notice(error instanceof AgileBoardError && error.code === 'VALIDATION_ERROR'
+        ? '❌ Bloc impossible à ajouter : layout généré, grille pleine ou dossier de layouts non configuré'
+        : '❌ Erreur lors de l\'ajout du bloc');
+    }
+  }
+
+  /**
+   * Dispose les frames selon la largeur actuelle de la vue
+   * 
+   * Grille complète, variante du layout ou reflow automatique (empilé,
+   * deux colonnes). Rien n'est fait si la disposition n'a pas changé.
+   */
+  private applyArrangement(): void {
+    if (!this.gridContainer || !this.arrangementSource) return;
+
+    // Vue masquée (onglet inactif) : disposition conservée jusqu'à l'affichage
+    const width = this.contentEl.clientWidth;
+    if (width === 0) return;
+
+    const { blocks, grid, breakpoints } = this.arrangementSource;
+    const arrangement = ResponsiveUtils.arrange(blocks, grid, breakpoints, width);
+    if (arrangement.key === this.arrangementKey) return;
+
+    this.arrangementKey = arrangement.key;
+    this.gridContainer.style.gridTemplateColumns = `repeat(${arrangement.columns}, 1fr)`;
+    this.gridContainer.toggleClass('is-reflowed', arrangement.reflowed);
+    this.gridContainer.dataset.arrangement = arrangement.key;
+
+    this.frameEls.forEach((frameEl, title) => {
+      const block = arrangement.blocks.find(candidate => candidate.title === title);
+      frameEl.toggleClass('is-hidden-by-breakpoint', !block);
+      if (block) {
+        frameEl.style.gridColumn = `${block.x + 1} / span ${block.w}`;
+        frameEl.style.gridRow = `${block.y + 1} / span ${block.h}`;
+      }
+    });
+
+    this.logger.debug('📐 Disposition du board', { width, arrangement: arrangement.key });
+  }
+
+  /**
+   * Bandeau d'une frame dont la section est présente plusieurs fois
+   */
+  private renderDuplicateWarning(frameContainer: HTMLElement, duplicate: DuplicateSection): void {
+    const warningEl = frameContainer.createDiv('frame-duplicate-warning');
+    warningEl.createSpan({
+      text: `⚠️ ${duplicate.occurrences.length} sections "${duplicate.name}" · occurrence ${duplicate.selected + 1} affichée`
+    });
+
+    const resolveButton = warningEl.createEl('button', { text: 'Résoudre' });
+    resolveButton.addEventListener('click', () => {
+      new DuplicateSectionsModal(this.app, this.plugin, this.file!, duplicate, () => this.renderBoardLayout()).open();
+    });
+  }
+
+  /**
+   * Ouvre la note dans l'éditeur Markdown, curseur sur le titre de la section
+   * 
+   * La position est relue au moment du clic (les sauvegardes du board ont pu
+   * déplacer la section) ; à défaut, la ligne connue au rendu est utilisée.
+   */
+  private async openInEditor(sectionName: string, fallbackLine: number): Promise<void> {
+    const services = this.plugin.getServices ? this.plugin.getServices() : null;
+    if (!this.file || !services) return;
+    const file = this.file;
+
+    try {
+      const sections = await services.file.getSections(file);
+      const line = sections.find(section => section.name === sectionName)?.startLine ?? fallbackLine;
+
+      await this.leaf.setViewState({ type: 'markdown', state: { file: file.path } }, { line });
+      const view = this.leaf.view;
+      if (view instanceof MarkdownView) {
+        view.editor.setCursor({ line, ch: 0 });
+        view.editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
+      }
+      this.logger.debug('📝 Section ouverte dans l\'éditeur', { sectionName, line });
+    } catch (error) {
+      this.logger.error(`❌ Erreur ouverture de la section "${sectionName}" dans l'éditeur:`, error);
+    }
+  }
+
   /**
    * Gestionnaire de changement de contenu
+   * 
+   * L'écriture n'a lieu que si la section n'a pas changé dans le fichier
+   * depuis son dernier affichage ; sinon la résolution du conflit est proposée.
+   * Les sauvegardes simultanées des frames sont regroupées par la file
+   * d'écriture de FileService ; chaque frame affiche le résultat de la sienne.
    */
-  private async onFrameContentChanged(sectionName: string, newContent: string): Promise<void> {
+  private async onFrameContentChanged(sectionName: string, newContent: string, frame: MarkdownFrame): Promise<void> {
+    const expected = this.sectionBaselines.get(sectionName);
+
     try {
       this.logger.verbose(`💾 Sauvegarde section "${sectionName}"`);
+      frame.setSaveState('saving');
       
       const services = this.plugin.getServices ? this.plugin.getServices() : null;
       
       if (services && services.file.updateSectionContent) {
-        await services.file.updateSectionContent(this.file!, sectionName, newContent);
+        await services.file.updateSectionContent(this.file!, sectionName, newContent, expected);
       } else if (this.plugin.fileService && this.plugin.fileService.updateSectionContent) {
-        await this.plugin.fileService.updateSectionContent(this.file!, sectionName, newContent);
+        await this.plugin.fileService.updateSectionContent(this.file!, sectionName, newContent, expected);
       }
+      this.sectionBaselines.set(sectionName, newContent.trim());
+      frame.setSaveState('saved');
       
     } catch (error) {
+      frame.setSaveState('failed');
+      if (error instanceof AgileBoardError && error.code === 'SECTION_CONFLICT') {
+        this.showConflict(sectionName, newContent, expected ?? '', String(error.context?.current ?? ''), frame);
+        return;
+      }
+      if (error instanceof AgileBoardError && error.code === 'SECTION_NOT_FOUND') {
+        new Notice(`⚠️ Section "${sectionName}" introuvable dans la note : modification non enregistrée`);
+        return;
+      }
       this.logger.error(`❌ Erreur sauvegarde section "${sectionName}":`, error);
     }
   }
 
+  /**
+   * Propose la résolution d'un conflit d'écriture
+   * 
+   * La version du fichier devient la référence : garder la sienne l'affiche
+   * dans la frame, garder la version du board ou la fusion l'écrit à nouveau
+   * (avec la même vérification).
+   */
+  private showConflict(sectionName: string, mine: string, base: string, theirs: string, frame: MarkdownFrame): void {
+    new SectionConflictModal(this.app, { sectionName, base, mine, theirs }, (content) => {
+      this.sectionBaselines.set(sectionName, theirs);
+      const resolved = content ?? theirs;
+      frame.updateContent({ ...frame.getSection(), lines: resolved.split('\n'), content: resolved });
+
+      if (content !== null) {
+        this.onFrameContentChanged(sectionName, content, frame);
+      } else {
+        frame.setSaveState('saved');
+      }
+    }).open();
+  }
+
   /**
    * Affiche une erreur avec sections manquantes
    */
@@ -284,6 +604,23 @@ export class BoardView extends FileView {
       list.createEl('li', { text: `• ${section}` });
     });
     
+    // Note créée avec une version antérieure du layout : proposer la migration
+    const services = this.plugin.getServices ? this.plugin.getServices() : null;
+    if (services?.file.needsMigration(this.file!)) {
+      errorContainer.createEl('p', {
+        text: 'Le layout de cette note a changé depuis sa création : la migration renomme les sections concernées.'
+      });
+      const migrateButton = errorContainer.createEl('button', {
+        text: '🔄 Migrer vers la nouvelle version',
+        cls: 'mod-cta'
+      });
+      migrateButton.addEventListener('click', async () => {
+        const report = await services.file.migrateNote(this.file!);
+        new MigrationReportModal(this.app, [report]).open();
+        await this.renderBoardLayout();
+      });
+    }
+
     const button = errorContainer.createEl('button', {
       text: '✨ Créer les sections manquantes',
       cls: 'mod-cta'
@@ -320,6 +657,10 @@ export class BoardView extends FileView {
   private cleanup(): void {
     this.frames.forEach(frame => frame.destroy());
     this.frames.clear();
+    this.frameEls.clear();
+    this.duplicates = [];
+    this.sectionBaselines.clear();
+    this.arrangementKey = '';
     this.gridContainer?.remove();
     this.gridContainer = null;
     this.logger.info('🔍 DEBUG cleanup');
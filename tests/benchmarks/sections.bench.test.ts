@@ -0,0 +1,54 @@
+/**
+ * Benchmark de la découverte des sections sur une grande note
+ * Analyse du texte (locateSections) ou positions du cache de métadonnées
+ * (locateSectionsFromHeadings) ; les durées sont affichées, pas vérifiées
+ */
+
+import { SectionUtils } from '../../src/utils/sections';
+import { createMockHeadings } from '../setup';
+
+describe('Benchmark - découverte des sections', () => {
+  const SECTIONS = 2000;
+  const RUNS = 15;
+
+  const note = [
+    '---',
+    'agile-board: layout_kanban',
+    '---',
+    ...Array.from({ length: SECTIONS }, (_, index) => [
+      `## Section ${index}`,
+      '',
+      ...Array.from({ length: 8 }, (_, task) => `- [ ] Tâche ${index}.${task} [[Note ${task}]] #tag`),
+      '```tasks',
+      'not done',
+      '```',
+      ''
+    ]).flat()
+  ].join('\n');
+  const headings = createMockHeadings(note);
+
+  const median = (run: () => void): number => {
+    const durations = Array.from({ length: RUNS }, () => {
+      const start = performance.now();
+      run();
+      return performance.now() - start;
+    }).sort((a, b) => a - b);
+    return durations[Math.floor(RUNS / 2)];
+  };
+
+  test('devrait trouver les mêmes sections, plus vite depuis le cache', () => {
+    const fromText = SectionUtils.locateSections(note);
+    const fromCache = SectionUtils.locateSectionsFromHeadings(note, headings, 2, note.length);
+    expect(fromCache).toEqual(fromText);
+    expect(fromText).toHaveLength(SECTIONS);
+
+    const textMs = median(() => SectionUtils.locateSections(note));
+    const cacheMs = median(() => SectionUtils.locateSectionsFromHeadings(note, headings, 2, note.length));
+
+    console.info(
+      `📊 ${SECTIONS} sections, ${note.split('\n').length} lignes : ` +
+      `texte ${textMs.toFixed(2)} ms, cache ${cacheMs.toFixed(2)} ms ` +
+      `(×${(textMs / Math.max(cacheMs, 0.001)).toFixed(1)})`
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests du designer de layouts - conversion de la grille dessinée en
+ * définition de layout et refus des grilles invalides
+ */
+
+jest.mock('obsidian', () => ({
+  Modal: class {},
+  Notice: jest.fn(),
+  Setting: class {},
+  TFile: class {},
+  debounce: (fn: () => void) => fn,
+  normalizePath: (path: string) => path
+}), { virtual: true });
+
+import { LayoutDesignerModal } from '../../src/components/LayoutDesignerModal';
+import { LayoutService } from '../../src/services/LayoutService';
+import { BoardLayout } from '../../src/types';
+import { createMockPlugin } from '../setup';
+
+describe('LayoutDesignerModal - conversion en layout', () => {
+  let layoutService: LayoutService;
+
+  const draft = (blocks: BoardLayout[], displayName = 'Ma Rétro') =>
+    ({ displayName, description: '', category: '', blocks });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    layoutService = new LayoutService(createMockPlugin() as any);
+    layoutService.load();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('devrait produire une définition valide pour le LayoutService', () => {
+    const { definition, error } = LayoutDesignerModal.toDefinition(draft([
+      { title: ' Bien ', x: 0, y: 0, w: 12, h: 12 },
+      { title: 'À améliorer', x: 12, y: 0, w: 12, h: 12 }
+    ]), layoutService);
+
+    expect(error).toBeUndefined();
+    expect(definition).toMatchObject({ name: 'layout_ma_retro', displayName: 'Ma Rétro', category: 'custom' });
+    expect(definition!.blocks.map(block => block.title)).toEqual(['Bien', 'À améliorer']);
+    expect(layoutService.validateModel(definition!.name, definition!.blocks).valid).toBe(true);
+  });
+
+  test('devrait refuser les blocs en chevauchement ou hors limites', () => {
+    const overlap = LayoutDesignerModal.toDefinition(draft([
+      { title: 'A', x: 0, y: 0, w: 12, h: 12 },
+      { title: 'B', x: 6, y: 6, w: 12, h: 12 }
+    ]), layoutService);
+    const outside = LayoutDesignerModal.toDefinition(draft([
+      { title: 'A', x: 20, y: 0, w: 8, h: 8 }
+    ]), layoutService);
+
+    expect(overlap.definition).toBeUndefined();
+    expect(overlap.error).toContain('chevauchement');
+    expect(outside.error).toContain('hors limites');
+  });
+
+  test('devrait exiger des titres non vides et distincts', () => {
+    const empty = LayoutDesignerModal.toDefinition(draft([
+      { title: '  ', x: 0, y: 0, w: 24, h: 8 }
+    ]), layoutService);
+    const duplicate = LayoutDesignerModal.toDefinition(draft([
+      { title: 'À faire', x: 0, y: 0, w: 12, h: 8 },
+      { title: 'a faire', x: 12, y: 0, w: 12, h: 8 }
+    ]), layoutService);
+
+    expect(empty.error).toContain('titre unique');
+    expect(duplicate.error).toContain('titre unique');
+  });
+
+  test('devrait exiger un nom et au moins un bloc', () => {
+    expect(LayoutDesignerModal.toDefinition(draft([{ title: 'A', x: 0, y: 0, w: 24, h: 8 }], ' '), layoutService).error)
+      .toContain('nom d\'affichage');
+    expect(LayoutDesignerModal.toDefinition(draft([]), layoutService).error).toContain('au moins un bloc');
+  });
+
+  test('devrait refuser un nom déjà pris', () => {
+    const blocks = [{ title: 'A', x: 0, y: 0, w: 24, h: 8 }];
+
+    expect(LayoutDesignerModal.toDefinition(draft(blocks, 'Kanban'), layoutService).error).toContain('layout_kanban');
+    expect(LayoutDesignerModal.toDefinition(draft(blocks, 'Rétro'), layoutService).definition)
+      .toMatchObject({ name: 'layout_retro' });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests du sélecteur "Nouveau board" - recherche, groupes, sélection
+ * au clavier et création de la note
+ */
+
+jest.mock('obsidian', () => ({
+  Modal: class {
+    constructor(public app: any) {}
+    close() {}
+  },
+  Notice: jest.fn(),
+  Setting: class {},
+  // Recherche simplifiée : sous-chaîne, meilleur score si trouvée tôt
+  prepareFuzzySearch: (query: string) => (text: string) => {
+    const index = text.toLowerCase().indexOf(query.toLowerCase());
+    return index >= 0 ? { score: -index, matches: [] } : null;
+  }
+}), { virtual: true });
+
+import { LayoutPickerModal } from '../../src/components/LayoutPickerModal';
+import { LayoutInfo } from '../../src/types';
+
+const layout = (name: string, category: string, extra: Partial<LayoutInfo> = {}): LayoutInfo => ({
+  name: `layout_${name}`,
+  displayName: name.charAt(0).toUpperCase() + name.slice(1),
+  description: '',
+  sections: [],
+  blockCount: 3,
+  category,
+  ...extra
+});
+
+describe('LayoutPickerModal', () => {
+  const kanban = layout('kanban', 'workflow', { featured: true, sections: ['À faire', 'En cours', 'Terminé'] });
+  const eisenhower = layout('eisenhower', 'productivity', { description: 'Urgent et important' });
+  const retro = layout('retro', 'workflow', { sections: ['Bien', 'À améliorer'] });
+  const layouts = [retro, eisenhower, kanban];
+
+  test('devrait grouper par catégorie, layouts mis en avant en tête', () => {
+    const groups = LayoutPickerModal.arrange(layouts, '');
+
+    expect(groups.map(group => group.name)).toEqual(['⭐ Mis en avant', 'Productivity', 'Workflow']);
+    expect(groups[0].layouts).toEqual([kanban]);
+    expect(groups[2].layouts).toEqual([retro]);
+  });
+
+  test('devrait filtrer sur le nom, la description et les sections', () => {
+    const names = (query: string) => LayoutPickerModal.arrange(layouts, query)
+      .flatMap(group => group.layouts.map(info => info.name));
+
+    expect(names('retro')).toEqual(['layout_retro']);
+    expect(names('urgent')).toEqual(['layout_eisenhower']);
+    expect(names('améliorer')).toEqual(['layout_retro']);
+    expect(names('introuvable')).toEqual([]);
+  });
+
+  test('devrait trier les groupes par pertinence pendant une recherche', () => {
+    const groups = LayoutPickerModal.arrange([retro, eisenhower], 'e');
+
+    // "Eisenhower" correspond dès le premier caractère, "Retro" ensuite
+    expect(groups.map(group => group.name)).toEqual(['Productivity', 'Workflow']);
+  });
+
+  test('devrait déplacer la sélection au clavier sans sortir de la liste', () => {
+    const visible = [kanban, eisenhower, retro];
+
+    expect(LayoutPickerModal.step(visible, null, 1)).toBe(kanban);
+    expect(LayoutPickerModal.step(visible, kanban, 1)).toBe(eisenhower);
+    expect(LayoutPickerModal.step(visible, retro, 1)).toBe(retro);
+    expect(LayoutPickerModal.step(visible, kanban, -1)).toBe(kanban);
+    expect(LayoutPickerModal.step([], null, 1)).toBeUndefined();
+  });
+
+  test('devrait créer la note du layout sélectionné dans le dossier actif', async () => {
+    const createNoteWithLayout = jest.fn().mockResolvedValue({ success: true });
+    const app = { workspace: { getActiveFile: () => ({ parent: { path: 'Projets/Sprint' } }) } };
+    const plugin = { services: { file: { createNoteWithLayout } }, logger: { error: jest.fn() } };
+    const picker = new LayoutPickerModal(app as any, plugin as any) as any;
+
+    picker.selected = retro;
+    picker.fileName = '  Rétro 42 ';
+    await picker.create();
+
+    expect(createNoteWithLayout).toHaveBeenCalledWith({
+      layoutName: 'layout_retro',
+      customFileName: 'Rétro 42',
+      folder: 'Projets/Sprint',
+      autoOpen: true
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests pour CustomLayoutService - layouts écrits par l'utilisateur
+ * (fichiers JSON / YAML du dossier de layouts)
+ */
+
+jest.mock('obsidian', () => {
+  const yaml = jest.requireActual('js-yaml');
+  return {
+    TFile: class {},
+    debounce: (fn: () => void) => fn,
+    normalizePath: (path: string) => path.replace(/\/+/g, '/').replace(/^\/|\/$/g, ''),
+    parseYaml: (text: string) => yaml.load(text),
+    stringifyYaml: (value: unknown) => yaml.dump(value)
+  };
+}, { virtual: true });
+
+import { TFile } from 'obsidian';
+import { CustomLayoutService } from '../../src/services/CustomLayoutService';
+import { LayoutService } from '../../src/services/LayoutService';
+import { createMockPlugin } from '../setup';
+
+const createLayoutFile = (path: string): TFile => {
+  const name = path.split('/').pop()!;
+  return Object.assign(new TFile(), {
+    path,
+    name,
+    basename: name.replace(/\.[^.]+$/, ''),
+    extension: name.split('.').pop()!
+  });
+};
+
+describe('CustomLayoutService', () => {
+  let files: Map<string, string>;
+  let mockApp: any;
+  let layoutService: LayoutService;
+  let service: CustomLayoutService;
+
+  const addFile = (path: string, content: string) => files.set(path, content);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    files = new Map();
+    mockApp = {
+      vault: {
+        getFiles: jest.fn(() => Array.from(files.keys()).map(createLayoutFile)),
+        cachedRead: jest.fn(async (file: TFile) => files.get(file.path)),
+        getAbstractFileByPath: jest.fn((path: string) =>
+          files.has(path) ? createLayoutFile(path) : (path === 'Layouts' ? {} : null)),
+        createFolder: jest.fn(),
+        create: jest.fn(async (path: string, content: string) => {
+          files.set(path, content);
+          return createLayoutFile(path);
+        }),
+        modify: jest.fn(async (file: TFile, content: string) => { files.set(file.path, content); })
+      }
+    };
+
+    const plugin = createMockPlugin();
+    layoutService = new LayoutService(plugin as any);
+    layoutService.load();
+    service = new CustomLayoutService(mockApp, layoutService, plugin.logger as any, 'Layouts');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseDefinition', () => {
+    test('devrait lire une définition YAML et dériver son nom du fichier', () => {
+      const definition = CustomLayoutService.parseDefinition(
+        '# Rétrospective\ndisplayName: Rétro\nblocks:\n  - { title: "Bien", x: 0, y: 0, w: 24, h: 12 }\n',
+        createLayoutFile('Layouts/Ma Rétro.yaml')
+      );
+
+      expect(definition).toMatchObject({
+        name: 'layout_ma_retro',
+        displayName: 'Rétro',
+        featured: false,
+        source: 'Layouts/Ma Rétro.yaml'
+      });
+      expect(definition.blocks).toHaveLength(1);
+    });
+
+    test('devrait rejeter les fichiers mal formés', () => {
+      const parse = (content: string, path = 'Layouts/test.json') =>
+        () => CustomLayoutService.parseDefinition(content, createLayoutFile(path));
+
+      expect(parse('{ "blocks": [')).toThrow(SyntaxError);
+      expect(parse('blocks: [ { title: A', 'Layouts/test.yaml')).toThrow();
+      expect(parse('- juste une liste', 'Layouts/test.yaml')).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(parse('{ "blocks": [] }')).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(parse('{ "blocks": [{}], "remove": "Terminé" }')).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(parse('{ "blocks": [{}], "headingLevel": 7 }')).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(parse('{ "blocks": [{}], "migrations": [{ "version": 1 }] }')).toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+    });
+
+    test('devrait accepter un layout qui ne fait que retirer des blocs de son parent', () => {
+      const definition = CustomLayoutService.parseDefinition(
+        '{ "extends": "layout_kanban", "remove": ["Terminé"] }',
+        createLayoutFile('Layouts/court.json')
+      );
+
+      expect(definition).toMatchObject({ name: 'layout_court', extends: 'layout_kanban', blocks: [] });
+    });
+  });
+
+  test('devrait normaliser les noms libres en identifiants de layout', () => {
+    expect(CustomLayoutService.toLayoutName('Ma Rétro')).toBe('layout_ma_retro');
+    expect(CustomLayoutService.toLayoutName('layout_Sprint 2')).toBe('layout_sprint_2');
+    expect(CustomLayoutService.toLayoutName('!!!')).toBe('layout_custom');
+  });
+
+  test('ne devrait reconnaître que les fichiers de layout du dossier', () => {
+    expect(service.isLayoutPath('Layouts/retro.yaml')).toBe(true);
+    expect(service.isLayoutPath('Layouts/equipe/retro.YML')).toBe(true);
+    expect(service.isLayoutPath('Layouts/retro.md')).toBe(false);
+    expect(service.isLayoutPath('Layouts2/retro.json')).toBe(false);
+    expect(service.isLayoutPath('Notes/Layouts/retro.json')).toBe(false);
+    expect(new CustomLayoutService(mockApp, layoutService, createMockPlugin().logger as any, ' ')
+      .isLayoutPath('retro.json')).toBe(false);
+  });
+
+  describe('loadAll', () => {
+    test('devrait ignorer les fichiers illisibles et ceux hors du dossier', async () => {
+      addFile('Layouts/retro.json', '{ "blocks": [{ "title": "A", "x": 0, "y": 0, "w": 24, "h": 12 }] }');
+      addFile('Layouts/casse.json', '{ "blocks": ');
+      addFile('Ailleurs/autre.json', '{ "blocks": [{ "title": "A", "x": 0, "y": 0, "w": 24, "h": 12 }] }');
+
+      expect(await service.loadAll()).toBe(1);
+      expect(layoutService.getModel('layout_retro')).toBeDefined();
+      expect(layoutService.getModel('layout_autre')).toBeUndefined();
+    });
+
+    test('devrait résoudre les collisions de noms', async () => {
+      const block = '{ "title": "A", "x": 0, "y": 0, "w": 24, "h": 12 }';
+      addFile('Layouts/retro.json', `{ "blocks": [${block}] }`);
+      addFile('Layouts/Rétro.yaml', `blocks: [${block.replace('"A"', '"B"')}]`);
+      addFile('Layouts/kanban.json', `{ "blocks": [${block}] }`);
+
+      await service.loadAll();
+
+      // Premier fichier lu conservé, layout intégré jamais remplacé
+      expect(layoutService.getModel('layout_retro')![0].title).toBe('A');
+      expect(layoutService.getModel('layout_kanban')!.map(b => b.title)).toEqual(['À faire', 'En cours', 'Terminé']);
+      expect(layoutService.getValidationReport('layout_kanban')).toMatchObject({ source: 'Layouts/kanban.json', valid: false });
+    });
+  });
+
+  describe('saveLayout', () => {
+    test('devrait créer un nouveau layout en JSON', async () => {
+      await service.saveLayout({ name: 'layout_sprint', blocks: [{ title: 'A', x: 0, y: 0, w: 24, h: 12 }] });
+
+      expect(JSON.parse(files.get('Layouts/sprint.json')!)).toMatchObject({ name: 'layout_sprint' });
+      expect(layoutService.getModel('layout_sprint')).toBeDefined();
+    });
+
+    test('devrait conserver le format YAML d\'un layout existant', async () => {
+      addFile('Layouts/retro.yaml', 'blocks:\n  - { title: "A", x: 0, y: 0, w: 24, h: 12 }\n');
+      await service.loadAll();
+
+      await service.saveLayout({
+        ...layoutService.getCustomDefinition('layout_retro')!,
+        blocks: [{ title: 'A', x: 0, y: 0, w: 24, h: 20 }]
+      });
+
+      const written = files.get('Layouts/retro.yaml')!;
+      expect(written.trim().startsWith('{')).toBe(false);
+      expect(Array.from(files.keys())).toEqual(['Layouts/retro.yaml']);
+      expect(layoutService.getModel('layout_retro')![0].h).toBe(20);
+    });
+
+    test('devrait refuser d\'enregistrer sans dossier de layouts', async () => {
+      const withoutFolder = new CustomLayoutService(mockApp, layoutService, createMockPlugin().logger as any, '');
+
+      await expect(withoutFolder.saveLayout({ name: 'layout_x', blocks: [] }))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('addBlock', () => {
+    test('devrait dériver un layout intégré sans le modifier', async () => {
+      const name = await service.addBlock('layout_kanban', 'Backlog', 'Sprint');
+
+      expect(name).toBe('layout_kanban_sprint');
+      expect(layoutService.getModel(name)!.map(block => block.title))
+        .toEqual(['À faire', 'En cours', 'Terminé', 'Backlog']);
+      expect(layoutService.getModel('layout_kanban')).toHaveLength(3);
+
+      expect(await service.addBlock('layout_kanban', 'Idées', 'Sprint')).toBe('layout_kanban_sprint_2');
+    });
+
+    test('devrait ajouter le bloc au layout personnalisé lui-même', async () => {
+      addFile('Layouts/retro.json', '{ "blocks": [{ "title": "A", "x": 0, "y": 0, "w": 24, "h": 12 }] }');
+      await service.loadAll();
+
+      expect(await service.addBlock('layout_retro', 'B', 'Note')).toBe('layout_retro');
+      expect(layoutService.getModel('layout_retro')![1]).toMatchObject({ title: 'B', x: 0, y: 12, w: 24, h: 12 });
+    });
+
+    test('devrait refuser les layouts générés ou inconnus', async () => {
+      await expect(service.addBlock('layout_columns', 'B', 'Note')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(service.addBlock('layout_inconnu', 'B', 'Note')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+});
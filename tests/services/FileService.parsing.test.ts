@@ -0,0 +1,292 @@
+/**
+ * Tests de non-régression du parsing des sections de FileService
+ * Les lignes "## ..." des blocs de code, de maths, des commentaires et du
+ * frontmatter ne doivent ni découper une section ni corrompre une sauvegarde
+ */
+
+jest.mock('obsidian', () => ({ Notice: jest.fn(), TFile: class {} }), { virtual: true });
+jest.mock('../../src/cache/FileCache', () => ({
+  FileCache: jest.fn().mockImplementation(() => ({
+    get: (_key: string, _modified: number, loader: () => Promise<unknown>) => loader(),
+    invalidate: jest.fn()
+  }))
+}));
+
+import { FileService } from '../../src/services/FileService';
+import { LayoutService } from '../../src/services/LayoutService';
+import { MarkdownUtils } from '../../src/utils/markdown';
+import { SectionUtils } from '../../src/utils/sections';
+import { createMockApp, createMockHeadings, createMockPlugin, createMockTFile } from '../setup';
+
+describe('FileService - parsing des sections', () => {
+  let fileService: FileService;
+  let mockApp: any;
+
+  const note = `---
+agile-board: layout_kanban
+description: |
+  ## pas une section
+---
+
+## À faire
+\`\`\`tasks
+not done
+## pas une section
+\`\`\`
+
+## En cours
+> [!note] Requête
+> \`\`\`dataview
+> LIST
+> ## pas une section non plus
+> \`\`\`
+
+$$
+## x
+$$
+
+<!-- brouillon
+## Ancienne section
+-->
+
+## Terminé
+~~~~markdown
+## exemple
+~~~
+toujours dans le bloc
+~~~~
+%% ## commentaire %%
+- Tâche C`;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockApp = createMockApp();
+    mockApp.vault.read.mockResolvedValue(note);
+    // Lecture-modification-écriture atomique : écrit via modify pour les vérifications
+    mockApp.vault.process.mockImplementation(async (file: any, fn: (data: string) => string) => {
+      const data = fn(await mockApp.vault.read(file));
+      await mockApp.vault.modify(file, data);
+      return data;
+    });
+    mockApp.metadataCache.getFileCache.mockReturnValue({ frontmatter: { 'agile-board': 'layout_kanban' } });
+
+    const plugin = createMockPlugin();
+    const layoutService = new LayoutService(plugin as any);
+    layoutService.load();
+    fileService = new FileService(mockApp, layoutService, plugin.logger as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('devrait ignorer les titres des blocs de code, de maths et des commentaires', async () => {
+    const sections = await fileService.parseSections(createMockTFile('Board.md'));
+
+    expect(Object.keys(sections)).toEqual(['À faire', 'En cours', 'Terminé']);
+    expect(sections['À faire']).toContain('## pas une section');
+    expect(sections['En cours']).toContain('<!-- brouillon\n## Ancienne section\n-->');
+    expect(sections['Terminé']).toContain('toujours dans le bloc');
+    expect(sections['Terminé'].endsWith('- Tâche C')).toBe(true);
+  });
+
+  test('devrait remplacer toute la section, bloc de code compris', async () => {
+    await fileService.updateSectionContent(createMockTFile('Board.md'), 'À faire', '- Nouvelle tâche\n');
+
+    const written: string = mockApp.vault.modify.mock.calls[0][1];
+    expect(written).toContain('## À faire\n- Nouvelle tâche\n\n## En cours');
+    expect(written).not.toContain('not done');
+    expect(written).toContain('> ```dataview');
+  });
+
+  test('devrait fournir l\'emplacement réel de chaque section', async () => {
+    const analysis = await fileService.analyzeFile(createMockTFile('Board.md'));
+    const done = analysis.existingSections.find(section => section.name === 'Terminé')!;
+
+    expect(done.startLine).toBe(note.split('\n').indexOf('## Terminé'));
+    expect(done.startOffset).toBe(note.indexOf('## Terminé'));
+    expect(done.endOffset).toBe(note.length);
+    expect(done.isFromLayout).toBe(true);
+  });
+
+  test('devrait utiliser le cache de métadonnées, sauf s\'il est périmé', async () => {
+    const frontmatter = { 'agile-board': 'layout_kanban' };
+    const edited = note.replace('## En cours', '- Tâche ajoutée\n\n## En cours');
+    mockApp.metadataCache.getFileCache.mockReturnValue({ frontmatter, headings: createMockHeadings(note) });
+
+    const fromCache = await fileService.parseSections(createMockTFile('Board.md'));
+    mockApp.vault.read.mockResolvedValue(edited);
+    const stale = await fileService.parseSections(createMockTFile('Edité.md'));
+
+    expect(Object.keys(fromCache)).toEqual(['À faire', 'En cours', 'Terminé']);
+    expect(stale['À faire'].endsWith('- Tâche ajoutée')).toBe(true);
+    expect(stale['En cours']).toContain('> LIST');
+  });
+
+  test('devrait signaler les doublons et n\'éditer que l\'occurrence choisie', async () => {
+    const file = createMockTFile('Doublons.md');
+    mockApp.vault.read.mockResolvedValue('## À faire\n- A\n\n## À faire\n- B\n\n## En cours\n- C');
+
+    const analysis = await fileService.analyzeFile(file);
+    expect(analysis.duplicateSections).toHaveLength(1);
+    expect(analysis.duplicateSections[0].occurrences.map(section => section.content)).toEqual(['- A', '- B']);
+
+    fileService.chooseDuplicateSection(file, 'À faire', 1);
+    expect((await fileService.parseSections(file))['À faire']).toBe('- B');
+
+    await fileService.updateSectionContent(file, 'À faire', '- B modifiée\n');
+    expect(mockApp.vault.modify.mock.calls[0][1]).toBe('## À faire\n- A\n\n## À faire\n- B modifiée\n\n## En cours\n- C');
+  });
+
+  test('devrait résoudre un doublon sans écraser une modification concurrente', async () => {
+    const file = createMockTFile('Doublons.md');
+    mockApp.vault.read
+      .mockResolvedValueOnce('## À faire\n- A\n\n## À faire\n- B')
+      .mockResolvedValueOnce('## À faire\n- A\n- A ajoutée ailleurs\n\n## À faire\n- B')
+      .mockResolvedValueOnce('## À faire\n- A\n\n## À faire\n- B')
+      .mockResolvedValueOnce('## À faire\n- A\n\n## Renommée ailleurs\n- B');
+
+    await fileService.mergeDuplicateSections(file, 'À faire');
+    expect(mockApp.vault.modify.mock.calls[0][1]).toContain('- A ajoutée ailleurs');
+
+    await expect(fileService.mergeDuplicateSections(file, 'À faire'))
+      .rejects.toMatchObject({ code: 'NOTE_CHANGED' });
+    expect(mockApp.vault.modify).toHaveBeenCalledTimes(1);
+  });
+
+  test('devrait créer les sections manquantes d\'après le contenu écrit', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read
+      .mockResolvedValueOnce('## À faire\n- A')
+      .mockResolvedValueOnce('## À faire\n- A\n\n## En cours\n- B ajoutée ailleurs');
+
+    await fileService.createMissingSections(file);
+
+    const written: string = mockApp.vault.modify.mock.calls[0][1];
+    expect(mockApp.vault.process).toHaveBeenCalledTimes(1);
+    expect(written.match(/## En cours/g)).toHaveLength(1);
+    expect(written).toContain('- B ajoutée ailleurs');
+    expect(written).toContain('## Terminé');
+  });
+
+  test('devrait migrer une note en une écriture atomique', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read.mockResolvedValue('## À faire\n- A');
+
+    const report = await fileService.migrateNote(file);
+
+    expect(report.error).toBeUndefined();
+    expect(report.added).toEqual(['En cours', 'Terminé']);
+    expect(mockApp.vault.process).toHaveBeenCalledTimes(1);
+    expect(mockApp.vault.modify.mock.calls[0][1]).toContain('## Terminé');
+  });
+
+  test('ne devrait rien écrire si la section a changé depuis son affichage', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read.mockResolvedValue('## À faire\n- A modifiée ailleurs\n\n## En cours\n- C');
+
+    await expect(fileService.updateSectionContent(file, 'À faire', '- A du board', '- A'))
+      .rejects.toMatchObject({ code: 'SECTION_CONFLICT', context: { current: '- A modifiée ailleurs' } });
+    expect(mockApp.vault.modify).not.toHaveBeenCalled();
+
+    await fileService.updateSectionContent(file, 'En cours', '- C du board\n', '- C');
+    expect(mockApp.vault.modify.mock.calls[0][1]).toBe('## À faire\n- A modifiée ailleurs\n\n## En cours\n- C du board\n');
+  });
+
+  test('devrait regrouper les sauvegardes simultanées en une écriture', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read.mockResolvedValue('## À faire\n- A\n\n## En cours\n- B\n\n## Terminé\n- C');
+
+    const results = await Promise.allSettled([
+      fileService.updateSectionContent(file, 'À faire', '- A1\n', '- A'),
+      fileService.updateSectionContent(file, 'En cours', '- B1', '- autre'),
+      fileService.updateSectionContent(file, 'Terminé', '- C1', '- C'),
+      fileService.updateSectionContent(file, 'À faire', '- A2\n', '- A')
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'SECTION_CONFLICT' });
+    expect(mockApp.vault.process).toHaveBeenCalledTimes(1);
+    expect(mockApp.vault.modify.mock.calls[0][1]).toBe('## À faire\n- A2\n\n## En cours\n- B\n\n## Terminé\n- C1');
+  });
+
+  test('devrait écrire après l\'écriture en cours les sauvegardes arrivées pendant celle-ci', async () => {
+    const file = createMockTFile('Board.md');
+    let stored = '## À faire\n- A\n\n## En cours\n- B';
+    mockApp.vault.read.mockImplementation(async () => stored);
+    mockApp.vault.modify.mockImplementation(async (_file: any, data: string) => { stored = data; });
+
+    const first = fileService.updateSectionContent(file, 'À faire', '- A1\n', '- A');
+    await Promise.resolve();
+    const second = fileService.updateSectionContent(file, 'À faire', '- A2\n', '- A');
+    const third = fileService.updateSectionContent(file, 'En cours', '- B1', '- B');
+
+    await Promise.all([first, second, third]);
+    expect(mockApp.vault.process).toHaveBeenCalledTimes(2);
+    expect(stored).toBe('## À faire\n- A2\n\n## En cours\n- B1');
+  });
+
+  test('devrait rejeter la sauvegarde d\'une section supprimée avant l\'écriture', async () => {
+    const file = createMockTFile('Board.md');
+    let stored = '## À faire\n- A\n\n## En cours\n- B';
+    mockApp.vault.read.mockImplementation(async () => stored);
+
+    const pending = fileService.updateSectionContent(file, 'En cours', '- B1', '- B');
+    stored = '## À faire\n- A';
+
+    await expect(pending).rejects.toMatchObject({ code: 'SECTION_NOT_FOUND' });
+    expect(mockApp.vault.modify).not.toHaveBeenCalled();
+  });
+
+  test('ne devrait pas signaler comme manquante une section affichée par le board', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read.mockResolvedValue('## à faire\n- A\n\n## 🚧 En cours :\n- B\n\n## Termine\n- C');
+
+    const analysis = await fileService.analyzeFile(file);
+
+    expect(analysis.missingSections).toEqual([]);
+    expect(analysis.extraSections).toEqual([]);
+    expect(analysis.existingSections.every(section => section.isFromLayout)).toBe(true);
+
+    await fileService.updateSectionContent(file, 'À faire', '- A1\n');
+    expect(mockApp.vault.modify.mock.calls[0][1]).toBe('## à faire\n- A1\n\n## 🚧 En cours :\n- B\n\n## Termine\n- C');
+  });
+
+  test('devrait rattacher une section hors layout à un bloc', async () => {
+    const file = createMockTFile('Board.md');
+    mockApp.vault.read.mockResolvedValue('## À faire\n- A\n\n## Backlog\n- X\n\n## En cours\n- B\n\n## Terminé\n- C');
+
+    expect((await fileService.analyzeFile(file)).extraSections).toEqual(['Backlog']);
+    await fileService.assignSectionToBlock(file, 'Backlog', 'À faire');
+
+    expect(mockApp.vault.modify.mock.calls[0][1]).toBe('## À faire\n- A\n\n- X\n\n## En cours\n- B\n\n## Terminé\n- C');
+  });
+
+  test('devrait découper la note de la même façon pour les changements de layout', () => {
+    const names = SectionUtils.splitNote(note).sections.map(section => section.name);
+
+    expect(names).toEqual(['À faire', 'En cours', 'Terminé']);
+  });
+
+  test('devrait terminer un bloc de code cité avec sa citation', () => {
+    const lines = ['> ```', '> ## cité', '## Section', '```'];
+
+    expect(MarkdownUtils.textLines(lines)).toEqual([false, false, true, false]);
+  });
+
+  test('ne devrait pas ouvrir de commentaire dans du code inline', () => {
+    const content = 'Texte avec `%%` et ``<!-- `x` ``\n\n## À faire\n- A\n\n## En cours\n%% vrai commentaire %%';
+
+    expect(SectionUtils.locateSections(content, 2).map(section => section.name)).toEqual(['À faire', 'En cours']);
+    expect(MarkdownUtils.textLines(['`%%` puis %% ouvert', '## masqué', '%%', '## Section']))
+      .toEqual([true, false, false, true]);
+  });
+
+  test('devrait considérer un bloc non refermé jusqu\'à la fin de la note', () => {
+    const lines = ['## Section', '```js', '## dans le code'];
+
+    expect(MarkdownUtils.textLines(lines)).toEqual([true, false, false]);
+    expect(MarkdownUtils.textLines(['Texte <!-- a --> et <!-- b', '## masqué', '--> fin', '## Section']))
+      .toEqual([true, false, false, true]);
+  });
+});
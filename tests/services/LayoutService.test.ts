@@ -82,6 +82,17 @@ describe('LayoutService', () => {
       expect(info!.blockCount).toBe(3);
     });
 
+    test('devrait générer une miniature SVG mise en cache', () => {
+      const thumbnail = layoutService.getThumbnail('layout_kanban');
+
+      expect(thumbnail).toMatch(/^<svg[^>]*viewBox="0 0 240 120"/);
+      expect(thumbnail!.match(/<rect /g)).toHaveLength(3);
+      expect(thumbnail).toContain('À faire');
+      expect(layoutService.getThumbnail('layout_kanban')).toBe(thumbnail);
+      expect(layoutService.getModelInfo('layout_kanban')!.thumbnail).toBe(thumbnail);
+      expect(layoutService.getThumbnail('layout_inexistant')).toBeUndefined();
+    });
+
     test('devrait retourner toutes les métadonnées', () => {
       const allInfo = layoutService.getAllModelsInfo();
       
@@ -95,4 +106,402 @@ describe('LayoutService', () => {
       expect(names).toContain('layout_gtd');
     });
   });
-});
\ No newline at end of file
+
+  describe('Grilles inline', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      layoutService.load();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait résoudre une grille inline valide sans l\'enregistrer', () => {
+      const blocks = [
+        { title: 'Idées', x: 0, y: 0, w: 12, h: 12 },
+        { title: 'Actions', x: 12, y: 0, w: 12, h: 12 }
+      ];
+
+      const resolved = layoutService.resolveLayout({ blocks }, 'Notes/Atelier.md');
+
+      expect(resolved).toMatchObject({ name: 'inline:Notes/Atelier.md', inline: true, blocks });
+      expect(layoutService.resolveLayout(blocks, 'Notes/Atelier.md')?.blocks).toEqual(blocks);
+      expect(layoutService.getModel('inline:Notes/Atelier.md')).toBeUndefined();
+    });
+
+    test('devrait rejeter une grille inline invalide', () => {
+      expect(layoutService.resolveLayout({ blocks: [
+        { title: 'A', x: 0, y: 0, w: 12, h: 12 },
+        { title: 'B', x: 6, y: 0, w: 12, h: 12 }
+      ] }, 'Chevauchement.md')).toBeUndefined();
+      expect(layoutService.resolveLayout({ blocks: [] }, 'Vide.md')).toBeUndefined();
+      expect(layoutService.resolveLayout({ title: 'pas une grille' }, 'Objet.md')).toBeUndefined();
+    });
+
+    test('devrait rejeter sans erreur une position fractionnaire', () => {
+      const resolve = () => layoutService.resolveLayout({ blocks: [
+        { title: 'A', x: 1.5, y: 0, w: 8, h: 8 },
+        { title: 'B', x: 12, y: 0, w: 8, h: 8 }
+      ] }, 'Fraction.md');
+
+      expect(resolve).not.toThrow();
+      expect(resolve()).toBeUndefined();
+      expect(layoutService.resolveLayout({ extends: 'layout_kanban', grid: { columns: 12.5 } }, 'Grille.md'))
+        .toBeUndefined();
+    });
+
+    test('devrait résoudre un nom de layout enregistré', () => {
+      const resolved = layoutService.resolveLayout('layout_kanban', 'Notes/Sprint.md');
+
+      expect(resolved).toMatchObject({ name: 'layout_kanban', inline: false });
+      expect(resolved?.blocks).toBe(layoutService.getModel('layout_kanban'));
+      expect(layoutService.resolveLayout('layout_inconnu', 'Notes/Sprint.md')).toBeUndefined();
+    });
+  });
+
+  describe('Héritage des layouts', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait remplacer, retirer et ajouter des blocs au parent', () => {
+      layoutService.setCustomLayouts([{
+        name: 'layout_kanban_review',
+        extends: 'layout_kanban',
+        remove: ['Terminé'],
+        blocks: [
+          { title: 'En cours', x: 8, y: 0, w: 8, h: 12 },
+          { title: 'Review', x: 8, y: 12, w: 8, h: 12 }
+        ]
+      }]);
+
+      const blocks = layoutService.getModel('layout_kanban_review')!;
+      expect(blocks.map(block => block.title)).toEqual(['À faire', 'En cours', 'Review']);
+      expect(blocks[1]).toMatchObject({ x: 8, y: 0, w: 8, h: 12 });
+      // Le layout parent n'est pas modifié
+      expect(layoutService.getModel('layout_kanban')![1].h).toBe(24);
+    });
+
+    test('devrait reconnaître les titres du parent comme les sections des notes', () => {
+      layoutService.setCustomLayouts([{
+        name: 'layout_kanban_matcher',
+        extends: 'layout_kanban',
+        remove: ['terminé'],
+        blocks: [{ title: '🚧 en cours :', x: 8, y: 0, w: 16, h: 24 }],
+        breakpoints: [{ maxWidth: 600, columns: 6, blocks: [
+          { title: 'a faire', x: 0, y: 0, w: 6, h: 12 },
+          { title: 'En cours', x: 0, y: 12, w: 6, h: 12 }
+        ] }]
+      }]);
+
+      const blocks = layoutService.getModel('layout_kanban_matcher')!;
+      expect(blocks).toHaveLength(2);
+      expect(blocks[1]).toMatchObject({ x: 8, w: 16 });
+      expect(layoutService.getValidationReport('layout_kanban_matcher')!.valid).toBe(true);
+    });
+
+    test('devrait résoudre une chaîne d\'héritage entre layouts personnalisés', () => {
+      layoutService.setCustomLayouts([
+        {
+          name: 'layout_child',
+          extends: 'layout_parent',
+          blocks: [{ title: 'C', x: 16, y: 0, w: 8, h: 10 }]
+        },
+        {
+          name: 'layout_parent',
+          extends: 'layout_kanban',
+          remove: ['Terminé'],
+          blocks: []
+        }
+      ]);
+
+      expect(layoutService.getModel('layout_child')!.map(block => block.title))
+        .toEqual(['À faire', 'En cours', 'C']);
+    });
+
+    test('devrait ignorer les layouts en héritage cyclique', () => {
+      layoutService.setCustomLayouts([
+        { name: 'layout_a', extends: 'layout_b', blocks: [{ title: 'A', x: 0, y: 0, w: 8, h: 8 }] },
+        { name: 'layout_b', extends: 'layout_a', blocks: [{ title: 'B', x: 8, y: 0, w: 8, h: 8 }] }
+      ]);
+
+      expect(layoutService.getModel('layout_a')).toBeUndefined();
+      expect(layoutService.getModel('layout_b')).toBeUndefined();
+    });
+
+    test('devrait valider le résultat aplati', () => {
+      layoutService.setCustomLayouts([{
+        name: 'layout_overlap',
+        extends: 'layout_kanban',
+        blocks: [{ title: 'Nouveau', x: 4, y: 0, w: 8, h: 8 }]
+      }]);
+
+      expect(layoutService.getModel('layout_overlap')).toBeUndefined();
+    });
+
+    test('devrait résoudre une grille inline qui étend un layout', () => {
+      layoutService.load();
+
+      const resolved = layoutService.resolveLayout(
+        { extends: 'layout_kanban', remove: ['Terminé'] },
+        'Notes/Sprint.md'
+      );
+
+      expect(resolved?.inline).toBe(true);
+      expect(resolved?.blocks.map(block => block.title)).toEqual(['À faire', 'En cours']);
+    });
+  });
+
+  describe('Dimensions de grille', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      layoutService.load();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait valider les blocs selon la grille déclarée', () => {
+      const blocks = [{ title: 'Large', x: 0, y: 0, w: 24, h: 10 }];
+
+      expect(layoutService.validateModel('dense', blocks, undefined, { columns: 48, rows: 100 }).valid).toBe(true);
+      const report = layoutService.validateModel('simple', blocks, undefined, { columns: 12, rows: 100 });
+      expect(report.errors.map(error => error.code)).toEqual(['out-of-bounds']);
+      expect(report.errors[0].message).toContain('12×100');
+    });
+
+    test('devrait rejeter des dimensions de grille invalides', () => {
+      const report = layoutService.validateModel('test', [{ title: 'A', x: 0, y: 0, w: 3, h: 3 }],
+        undefined, { columns: 2.5, rows: 100 });
+
+      expect(report.errors.map(error => error.code)).toEqual(['invalid-grid']);
+    });
+
+    test('devrait hériter la grille du parent', () => {
+      layoutService.setCustomLayouts([
+        { name: 'layout_simple12', grid: { columns: 12 }, blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 12 }] },
+        { name: 'layout_simple12_bis', extends: 'layout_simple12', blocks: [{ title: 'B', x: 0, y: 12, w: 12, h: 12 }] }
+      ]);
+
+      expect(layoutService.getGrid('layout_simple12_bis')).toEqual({ columns: 12, rows: 100 });
+      expect(layoutService.getGrid('layout_kanban')).toEqual(LayoutService.DEFAULT_GRID);
+    });
+
+    test('devrait valider les variantes pour vues étroites', () => {
+      layoutService.setCustomLayouts([
+        {
+          name: 'layout_responsive',
+          blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 12 }, { title: 'B', x: 12, y: 0, w: 12, h: 12 }],
+          breakpoints: [{ maxWidth: 600, columns: 6, blocks: [{ title: 'A', x: 0, y: 0, w: 6, h: 6 }] }]
+        },
+        {
+          name: 'layout_responsive_ko',
+          blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 12 }],
+          breakpoints: [{ maxWidth: 600, columns: 6, blocks: [{ title: 'Z', x: 0, y: 0, w: 12, h: 6 }] }]
+        }
+      ]);
+
+      expect(layoutService.resolveLayout('layout_responsive', 'Note.md')?.breakpoints).toHaveLength(1);
+      const report = layoutService.getValidationReport('layout_responsive_ko');
+      expect(report?.valid).toBe(false);
+      expect(report?.errors.map(error => error.code)).toEqual(['invalid-breakpoint', 'invalid-breakpoint']);
+    });
+
+    test('devrait résoudre la grille d\'une grille inline', () => {
+      const resolved = layoutService.resolveLayout(
+        { grid: { columns: 12 }, blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 12 }] },
+        'Notes/Simple.md'
+      );
+
+      expect(resolved?.grid).toEqual({ columns: 12, rows: 100 });
+    });
+  });
+
+  describe('Niveau de titre des sections', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      layoutService.setCustomLayouts([
+        { name: 'layout_h3', headingLevel: 3, blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 12 }] },
+        { name: 'layout_h3_bis', extends: 'layout_h3', blocks: [{ title: 'B', x: 12, y: 0, w: 12, h: 12 }] }
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait hériter le niveau de titre du parent', () => {
+      expect(layoutService.getHeadingLevel('layout_h3_bis')).toBe(3);
+      expect(layoutService.getHeadingLevel('layout_kanban')).toBe(2);
+      expect(layoutService.resolveLayout('layout_h3', 'Note.md')?.headingLevel).toBe(3);
+    });
+
+    test('devrait préférer le niveau fixé par la note', () => {
+      expect(layoutService.resolveLayout('layout_h3', 'Note.md', { 'agile-board-heading': 1 })?.headingLevel).toBe(1);
+      expect(layoutService.resolveLayout('layout_kanban', 'Note.md', { 'agile-board-heading': 7 })?.headingLevel).toBe(2);
+    });
+  });
+
+  describe('Layouts générateurs', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      layoutService.load();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait enregistrer le générateur avec ses valeurs par défaut', () => {
+      const blocks = layoutService.getModel('layout_columns');
+
+      expect(blocks?.map(block => block.title)).toEqual(['À faire', 'En cours', 'Terminé']);
+      expect(blocks?.map(block => block.w)).toEqual([8, 8, 8]);
+    });
+
+    test('devrait générer les colonnes depuis le frontmatter de la note', () => {
+      const resolved = layoutService.resolveLayout('layout_columns', 'Sprint.md', {
+        'agile-board': 'layout_columns',
+        'agile-board-columns': ['Backlog', 'Doing', 'Review', 'Done']
+      });
+
+      expect(resolved?.name).toBe('layout_columns');
+      expect(resolved?.blocks.map(block => [block.title, block.x, block.w]))
+        .toEqual([['Backlog', 0, 6], ['Doing', 6, 6], ['Review', 12, 6], ['Done', 18, 6]]);
+    });
+
+    test('devrait rejeter des colonnes générées invalides', () => {
+      const resolved = layoutService.resolveLayout('layout_columns', 'Sprint.md', {
+        'agile-board-columns': Array.from({ length: 40 }, (_, index) => `Colonne ${index}`)
+      });
+
+      expect(resolved).toBeUndefined();
+    });
+  });
+
+  describe('Rapports de validation', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait signaler chaque bloc en erreur', () => {
+      const report = layoutService.validateModel('test', [
+        { title: 'A', x: 0, y: 0, w: 12, h: 12 },
+        { title: 'B', x: 6, y: 4, w: 12, h: 12 },
+        { title: 'C', x: 20, y: 0, w: 8, h: 8 },
+        { title: 'D', x: 0, y: 20, w: 2, h: 8 },
+        { title: 'E', x: '0', y: 0, w: 4, h: 4 } as any
+      ]);
+
+      expect(report.valid).toBe(false);
+      expect(report.errors.map(error => [error.blockTitle, error.code])).toEqual([
+        ['B', 'overlap'],
+        ['C', 'out-of-bounds'],
+        ['D', 'too-small'],
+        ['E', 'invalid-type']
+      ]);
+      expect(report.errors[0]).toMatchObject({ cell: { x: 6, y: 4 }, overlapsWith: 'A' });
+    });
+
+    test('devrait rejeter les positions et tailles non entières', () => {
+      const report = layoutService.validateModel('test', [
+        { title: 'A', x: 1.5, y: 0, w: 8, h: 8 },
+        { title: 'B', x: 10, y: 0, w: 8, h: 0.5 },
+        { title: 'C', x: 0, y: 10, w: 8, h: 8 }
+      ]);
+
+      expect(report.errors.map(error => [error.blockTitle, error.code])).toEqual([
+        ['A', 'invalid-type'],
+        ['B', 'invalid-type']
+      ]);
+      expect(layoutService.isBlockInBounds({ title: 'A', x: 1.5, y: 0, w: 8, h: 8 })).toBe(false);
+      expect(layoutService.inspectBlocks([
+        { title: 'A', x: 1.5, y: 0, w: 8, h: 8 },
+        null as any,
+        { title: 'C', x: 0, y: 10, w: 8, h: 8 }
+      ])).toEqual(new Map([[0, ['bounds']], [1, ['bounds']]]));
+    });
+
+    test('ne devrait écarter que le layout personnalisé en erreur', () => {
+      layoutService.setCustomLayouts([
+        { name: 'layout_fraction', blocks: [{ title: 'A', x: 1.5, y: 0, w: 8, h: 8 }] },
+        { name: 'layout_ok', blocks: [{ title: 'A', x: 0, y: 0, w: 24, h: 8 }] }
+      ]);
+
+      expect(layoutService.getModel('layout_fraction')).toBeUndefined();
+      expect(layoutService.getValidationReport('layout_fraction')!.errors[0].code).toBe('invalid-type');
+      expect(layoutService.getModel('layout_ok')).toBeDefined();
+      expect(layoutService.getModel('layout_kanban')).toBeDefined();
+    });
+
+    test('devrait avertir des zones inutilisées sans invalider le layout', () => {
+      const report = layoutService.validateModel('test', [
+        { title: 'A', x: 0, y: 0, w: 12, h: 10 }
+      ]);
+
+      expect(report.valid).toBe(true);
+      expect(report.warnings).toHaveLength(1);
+      expect(report.warnings[0].code).toBe('unused-area');
+    });
+
+    test('devrait conserver le rapport des layouts rejetés', () => {
+      layoutService.setCustomLayouts([
+        { name: 'layout_broken', source: 'Layouts/broken.json', blocks: [{ title: 'A', x: 20, y: 0, w: 8, h: 8 }] },
+        { name: 'layout_orphan', extends: 'layout_missing', blocks: [] }
+      ]);
+
+      expect(layoutService.getModel('layout_broken')).toBeUndefined();
+      expect(layoutService.getValidationReport('layout_broken')).toMatchObject({
+        valid: false,
+        source: 'Layouts/broken.json'
+      });
+      expect(layoutService.getValidationReport('layout_orphan')!.errors[0].code).toBe('definition');
+      expect(layoutService.getValidationReport('layout_kanban')!.valid).toBe(true);
+
+      // Les layouts rejetés sont listés en premier
+      const reports = layoutService.getValidationReports();
+      expect(reports.slice(0, 2).every(report => !report.valid)).toBe(true);
+    });
+  });
+
+  describe('Options de bloc', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('devrait accepter les options valides', () => {
+      const report = layoutService.validateModel('test', [{
+        title: 'A', x: 0, y: 0, w: 24, h: 10,
+        metadata: { color: 'blue', icon: 'inbox', collapsed: true, readOnly: true, label: 'Boîte' }
+      }]);
+
+      expect(report.valid).toBe(true);
+      expect(report.warnings).toEqual([]);
+    });
+
+    test('devrait signaler les options invalides ou inconnues', () => {
+      const report = layoutService.validateModel('test', [{
+        title: 'A', x: 0, y: 0, w: 24, h: 10,
+        metadata: { color: 'fuchsia', readOnly: 'yes', size: 'xl' } as any
+      }]);
+
+      expect(report.valid).toBe(false);
+      expect(report.errors.map(error => error.code)).toEqual(['invalid-option', 'invalid-option']);
+      expect(report.warnings.map(warning => warning.code)).toEqual(['unknown-option']);
+    });
+  });
+});
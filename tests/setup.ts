@@ -3,6 +3,8 @@
  * Mocks et helpers pour l'environnement de test
  */
 
+import { MarkdownUtils } from '../src/utils/markdown';
+
 // Configuration des timeouts
 jest.setTimeout(10000);
 
@@ -25,6 +27,7 @@ export const createMockApp = () => {
     vault: {
       read: jest.fn(),
       modify: jest.fn(),
+      process: jest.fn(),
       create: jest.fn(),
       getMarkdownFiles: jest.fn(() => []),
       getAbstractFileByPath: jest.fn(),
@@ -79,10 +82,44 @@ export const createMockTFile = (path: string, basename?: string) => {
   } as any;
 };
 
+// Helper pour simuler les titres du cache de métadonnées Obsidian
+// (CachedMetadata.headings) d'un contenu : titres "#" hors code, maths et commentaires
+export const createMockHeadings = (content: string) => {
+  const headings: any[] = [];
+  const lines = content.split('\n');
+  const text = MarkdownUtils.textLines(lines);
+  let offset = 0;
+
+  lines.forEach((line, index) => {
+    const match = text[index] && line.match(/^(#{1,6}) (.*?)\s*$/);
+    if (match) {
+      headings.push({
+        heading: match[2],
+        level: match[1].length,
+        position: {
+          start: { line: index, col: 0, offset },
+          end: { line: index, col: line.length, offset: offset + line.length }
+        }
+      });
+    }
+    offset += line.length + 1;
+  });
+
+  return headings;
+};
+
 // Helper pour créer un mock Plugin
 export const createMockPlugin = () => {
   return {
     app: createMockApp(),
+    logger: {
+      info: jest.fn(),
+      debug: jest.fn(),
+      verbose: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      success: jest.fn()
+    },
     addCommand: jest.fn(),
     registerEvent: jest.fn(),
     registerView: jest.fn(),
@@ -0,0 +1,24 @@
+/**
+ * Tests de ConflictUtils - fusion d'une section modifiée dans le board et ailleurs
+ */
+
+import { ConflictUtils } from '../../src/utils/conflict';
+
+describe('ConflictUtils', () => {
+  const base = '- [ ] Tâche A\n- [ ] Tâche B';
+
+  test('devrait garder les ajouts des deux côtés', () => {
+    const mine = '- [ ] Tâche A\n- [ ] Tâche A2\n- [ ] Tâche B';
+    const theirs = '- [ ] Tâche A\n- [ ] Tâche B\n- [ ] Tâche C';
+
+    expect(ConflictUtils.mergeSection(base, mine, theirs))
+      .toBe('- [ ] Tâche A\n- [ ] Tâche A2\n- [ ] Tâche B\n- [ ] Tâche C');
+  });
+
+  test('devrait appliquer les suppressions du board et garder les modifications du fichier', () => {
+    const mine = '- [ ] Tâche B';
+    const theirs = '- [ ] Tâche A\n- [x] Tâche B';
+
+    expect(ConflictUtils.mergeSection(base, mine, theirs)).toBe('- [x] Tâche B');
+  });
+});
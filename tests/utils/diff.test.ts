@@ -0,0 +1,39 @@
+/**
+ * Tests de DiffUtils - aperçu des différences avant écriture
+ */
+
+import { DiffUtils } from '../../src/utils/diff';
+
+describe('DiffUtils', () => {
+  test('devrait montrer une section déplacée comme supprimée puis ajoutée', () => {
+    const before = '## A\n- a\n## B\n- b';
+    const after = '## B\n- b\n## A\n- a';
+
+    const diff = DiffUtils.diffLines(before, after);
+
+    expect(diff.filter(line => line.type === 'same').map(line => line.text)).toEqual(['## B', '- b']);
+    expect(diff.filter(line => line.type === 'removed').map(line => line.text)).toEqual(['## A', '- a']);
+    expect(diff.filter(line => line.type === 'added').map(line => line.text)).toEqual(['## A', '- a']);
+  });
+
+  test('devrait relire chaque version dans l\'ordre', () => {
+    const before = 'un\ndeux\ntrois\nquatre';
+    const after = 'un\ndeux bis\ntrois\nquatre\ncinq';
+    const diff = DiffUtils.diffLines(before, after);
+
+    expect(diff.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe(before);
+    expect(diff.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe(after);
+  });
+
+  test('devrait regrouper les modifications avec leur contexte', () => {
+    const lines = Array.from({ length: 20 }, (_, index) => `ligne ${index}`);
+    const after = [...lines];
+    after[2] = 'modifiée';
+    after[17] = 'modifiée aussi';
+
+    const hunks = DiffUtils.hunks(DiffUtils.diffLines(lines.join('\n'), after.join('\n')), 1);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].map(line => line.text)).toEqual(['ligne 1', 'ligne 2', 'modifiée', 'ligne 3']);
+  });
+});
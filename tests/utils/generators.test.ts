@@ -0,0 +1,29 @@
+/**
+ * Tests de GeneratorUtils - blocs générés depuis le frontmatter
+ */
+
+import { GeneratorUtils } from '../../src/utils/generators';
+
+describe('GeneratorUtils', () => {
+  test('devrait lire une liste ou un texte séparé par des virgules', () => {
+    expect(GeneratorUtils.parseValues(['Backlog', ' Doing ', '', 'Backlog', 3])).toEqual(['Backlog', 'Doing', '3']);
+    expect(GeneratorUtils.parseValues('Backlog, Doing,Done')).toEqual(['Backlog', 'Doing', 'Done']);
+    expect(GeneratorUtils.parseValues(undefined)).toEqual([]);
+  });
+
+  test('devrait répartir les colonnes sur toute la largeur', () => {
+    const blocks = GeneratorUtils.spreadColumns(['A', 'B', 'C', 'D', 'E']);
+
+    expect(blocks.map(block => block.w)).toEqual([5, 5, 5, 5, 4]);
+    expect(blocks.map(block => block.x)).toEqual([0, 5, 10, 15, 20]);
+    expect(blocks.every(block => block.y === 0 && block.h === GeneratorUtils.ROW_HEIGHT)).toBe(true);
+  });
+
+  test('devrait passer à une nouvelle rangée au-delà de 8 colonnes', () => {
+    const titles = Array.from({ length: 10 }, (_, index) => `C${index}`);
+    const blocks = GeneratorUtils.spreadColumns(titles);
+
+    expect(blocks.slice(0, 8).every(block => block.y === 0 && block.w === 3)).toBe(true);
+    expect(blocks.slice(8).map(block => [block.x, block.y, block.w])).toEqual([[0, 24, 12], [12, 24, 12]]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests de SectionMatcher - noms de sections reconnus malgré casse,
+ * accents, emoji en tête et ponctuation finale
+ */
+
+import { SectionMatcher } from '../../src/utils/matcher';
+import { SectionUtils } from '../../src/utils/sections';
+
+describe('SectionMatcher', () => {
+  afterEach(() => {
+    SectionMatcher.configure();
+  });
+
+  test.each([
+    ['à faire', 'À faire'],
+    ['A faire', 'À faire'],
+    ['🔥 À faire', 'À faire'],
+    ['🏳️‍🌈  À   faire', 'À faire'],
+    ['À faire :', 'À faire'],
+    ['🚧 en cours...', 'En cours'],
+    ['À faire', 'À faire']
+  ])('devrait reconnaître "%s" comme "%s"', (heading, title) => {
+    expect(SectionMatcher.matches(heading, title)).toBe(true);
+  });
+
+  test('ne devrait pas confondre des sections différentes', () => {
+    expect(SectionMatcher.matches('À faire plus tard', 'À faire')).toBe(false);
+    expect(SectionMatcher.matches('Terminé', 'Termine bien')).toBe(false);
+  });
+
+  test('devrait garder un titre fait uniquement d\'emoji ou de ponctuation', () => {
+    expect(SectionMatcher.key('🔥')).toBe('🔥');
+    expect(SectionMatcher.key('?')).toBe('?');
+    expect(SectionMatcher.matches('🔥', '💧')).toBe(false);
+  });
+
+  test('devrait appliquer uniquement les normalisations activées', () => {
+    SectionMatcher.configure({ ignoreAccents: false, ignoreEmoji: false });
+
+    expect(SectionMatcher.matches('à faire', 'À faire')).toBe(true);
+    expect(SectionMatcher.matches('A faire', 'À faire')).toBe(false);
+    expect(SectionMatcher.matches('🔥 À faire', 'À faire')).toBe(false);
+    expect(SectionMatcher.matches('À faire !', 'À faire')).toBe(true);
+  });
+
+  test('devrait préférer le titre le plus prioritaire', () => {
+    expect(SectionMatcher.find(['To Do', 'Todo'], ['todo', '📋 to do'])).toBe('📋 to do');
+    expect(SectionMatcher.find(['Done'], ['À faire'])).toBeUndefined();
+  });
+
+  test('devrait servir aux correspondances bloc / section et aux doublons', () => {
+    const block = { title: 'À faire', x: 0, y: 0, w: 8, h: 24 };
+
+    expect(SectionUtils.matchSection(block, ['En cours', '✅ a faire :'])).toBe('✅ a faire :');
+    expect(SectionUtils.findDuplicates([{ name: 'À faire' }, { name: 'a faire' }])).toHaveLength(1);
+  });
+});
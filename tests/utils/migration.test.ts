@@ -0,0 +1,56 @@
+/**
+ * Tests de MigrationUtils - versions des layouts et migration des notes
+ */
+
+import { MigrationUtils } from '../../src/utils/migration';
+import { TemplateUtils } from '../../src/utils/template';
+import { BoardLayout, LayoutMigration } from '../../src/types';
+
+describe('MigrationUtils', () => {
+  const blocks: BoardLayout[] = [
+    { title: 'À faire', x: 0, y: 0, w: 8, h: 24 },
+    { title: 'En revue', x: 8, y: 0, w: 8, h: 24, content: 'Revue du {{date}}' },
+    { title: 'Fait', x: 16, y: 0, w: 8, h: 24 }
+  ];
+
+  const migrations: LayoutMigration[] = [
+    { version: 2, description: 'Colonne de revue', renames: { 'Terminé': 'Fait' } }
+  ];
+
+  const note = `---
+agile-board: layout_team
+---
+
+## À faire
+- Tâche A
+
+## terminé
+- Tâche C`;
+
+  const context = TemplateUtils.createContext('Sprint', 'layout_team', new Date(2026, 9, 19));
+
+  test('devrait calculer les versions du layout et de la note', () => {
+    expect(MigrationUtils.layoutVersion([])).toBe(1);
+    expect(MigrationUtils.layoutVersion(migrations)).toBe(2);
+    expect(MigrationUtils.noteVersion({})).toBe(1);
+    expect(MigrationUtils.noteVersion({ 'agile-board-version': 3 })).toBe(3);
+  });
+
+  test('devrait renommer, ajouter les sections et enregistrer la version', () => {
+    const result = MigrationUtils.migrateNote(note, { blocks, migrations, fromVersion: 1, toVersion: 2, context });
+
+    expect(result.renamed).toEqual([{ from: 'terminé', to: 'Fait' }]);
+    expect(result.added).toEqual(['En revue']);
+    expect(result.notes).toEqual(['v2 : Colonne de revue']);
+    expect(result.content).toContain('agile-board-version: 2');
+    expect(result.content).toContain('## Fait\n- Tâche C');
+    expect(result.content).toContain('## En revue\n\nRevue du 2026-10-19');
+  });
+
+  test('ne devrait pas rejouer les migrations déjà appliquées', () => {
+    const result = MigrationUtils.migrateNote(note, { blocks, migrations, fromVersion: 2, toVersion: 2, context });
+
+    expect(result.renamed).toEqual([]);
+    expect(result.content).toContain('## terminé');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests de ResponsiveUtils - disposition des boards selon la largeur
+ */
+
+import { ResponsiveUtils } from '../../src/utils/responsive';
+import { BoardLayout, GridSize } from '../../src/types';
+
+describe('ResponsiveUtils', () => {
+  const grid: GridSize = { columns: 24, rows: 100 };
+  const blocks: BoardLayout[] = [
+    { title: 'B', x: 12, y: 0, w: 12, h: 10 },
+    { title: 'A', x: 0, y: 0, w: 12, h: 12 },
+    { title: 'C', x: 0, y: 12, w: 24, h: 6 }
+  ];
+
+  test('devrait garder la grille complète sur une vue large', () => {
+    const arrangement = ResponsiveUtils.arrange(blocks, grid, undefined, 1200);
+
+    expect(arrangement).toEqual({ key: 'full', columns: 24, blocks, reflowed: false });
+  });
+
+  test('devrait empiler les blocs dans l\'ordre de lecture sur une vue étroite', () => {
+    const arrangement = ResponsiveUtils.arrange(blocks, grid, undefined, 400);
+
+    expect(arrangement.key).toBe('stacked');
+    expect(arrangement.blocks.map(block => [block.title, block.x, block.y, block.w]))
+      .toEqual([['A', 0, 0, 1], ['B', 0, 12, 1], ['C', 0, 22, 1]]);
+  });
+
+  test('devrait répartir sur deux colonnes sur une vue moyenne', () => {
+    const arrangement = ResponsiveUtils.arrange(blocks, grid, undefined, 700);
+
+    expect(arrangement.columns).toBe(2);
+    expect(arrangement.blocks.map(block => [block.title, block.x, block.y, block.w]))
+      .toEqual([['A', 0, 0, 1], ['B', 1, 0, 1], ['C', 0, 12, 2]]);
+  });
+
+  test('devrait appliquer la variante déclarée la plus proche', () => {
+    const breakpoints = [
+      { maxWidth: 800, columns: 12, blocks: [{ title: 'A', x: 0, y: 0, w: 12, h: 8 }, { title: 'B', x: 0, y: 8, w: 12, h: 8 }] },
+      { maxWidth: 500, columns: 6, blocks: [{ title: 'A', x: 0, y: 0, w: 6, h: 8 }] }
+    ];
+
+    const medium = ResponsiveUtils.arrange(blocks, grid, breakpoints, 700);
+    expect(medium.key).toBe('variant:800');
+    expect(medium.columns).toBe(12);
+    expect(medium.blocks.map(block => block.title)).toEqual(['B', 'A']);
+
+    expect(ResponsiveUtils.arrange(blocks, grid, breakpoints, 300).blocks.map(block => block.title)).toEqual(['A']);
+    expect(ResponsiveUtils.arrange(blocks, grid, breakpoints, 1000).key).toBe('full');
+  });
+
+  test('devrait associer les blocs de variante comme les sections des notes', () => {
+    const breakpoints = [{ maxWidth: 500, columns: 6, blocks: [{ title: '📌 a :', x: 0, y: 0, w: 6, h: 8 }] }];
+
+    expect(ResponsiveUtils.arrange(blocks, grid, breakpoints, 300).blocks)
+      .toEqual([{ title: 'A', x: 0, y: 0, w: 6, h: 8 }]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests de SectionUtils - découpage des notes et changement de layout
+ */
+
+import { LayoutService } from '../../src/services/LayoutService';
+import { SectionUtils } from '../../src/utils/sections';
+import { createMockHeadings, createMockPlugin } from '../setup';
+
+describe('SectionUtils', () => {
+  let layoutService: LayoutService;
+
+  const note = `---
+agile-board: layout_kanban
+tags: [sprint]
+---
+
+Objectif du sprint
+
+## À faire
+- Tâche A
+
+## En cours
+- Tâche B
+
+## Terminé
+- Tâche C
+
+## Notes
+Remarques libres`;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    layoutService = new LayoutService(createMockPlugin() as any);
+    layoutService.load();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('devrait redonner exactement la note après découpage', () => {
+    expect(SectionUtils.renderNote(SectionUtils.splitNote(note))).toBe(note);
+  });
+
+  test('devrait déplacer, fusionner et conserver les sections', () => {
+    const written = SectionUtils.applyLayoutChange(note, 'layout_eisenhower',
+      layoutService.getModel('layout_eisenhower')!, {
+        'À faire': 'Urgent et Important',
+        'En cours': 'Urgent et Important',
+        'Terminé': 'Ni urgent ni important',
+        'Notes': undefined
+      });
+    const structure = SectionUtils.splitNote(written);
+
+    expect(structure.frontmatter).toEqual(['---', 'agile-board: layout_eisenhower', 'tags: [sprint]', '---']);
+    expect(structure.preamble.join('\n')).toContain('Objectif du sprint');
+    expect(structure.sections.map(section => section.name)).toEqual([
+      'Urgent et Important',
+      'Pas urgent mais Important',
+      'Urgent mais Pas important',
+      'Ni urgent ni important',
+      'Notes'
+    ]);
+    expect(structure.sections[0].lines).toEqual(['', '- Tâche A', '', '- Tâche B', '']);
+    expect(structure.sections[3].lines).toContain('- Tâche C');
+    expect(structure.sections[4].lines).toEqual(['Remarques libres']);
+  });
+
+  test('devrait remplacer une grille inline du frontmatter', () => {
+    const inline = `---
+agile-board:
+  blocks:
+    - { title: "Idées", x: 0, y: 0, w: 12, h: 12 }
+status: draft
+---
+## Idées
+- Une idée`;
+
+    const result = SectionUtils.applyLayoutChange(inline, 'layout_kanban',
+      layoutService.getModel('layout_kanban')!, { 'Idées': 'À faire' });
+
+    expect(result.startsWith('---\nagile-board: layout_kanban\nstatus: draft\n---\n')).toBe(true);
+    expect(SectionUtils.splitNote(result).sections[0].lines).toContain('- Une idée');
+  });
+
+  test('devrait proposer une correspondance par titre', () => {
+    const mapping = SectionUtils.suggestMapping(
+      ['à faire', 'Backlog'],
+      layoutService.getModel('layout_kanban')!
+    );
+
+    expect(mapping).toEqual({ 'à faire': 'À faire', 'Backlog': undefined });
+  });
+
+  test('devrait découper et réécrire les sections au niveau de titre demandé', () => {
+    const h3 = `## Sprint 12
+
+### À faire
+- Tâche A
+#### Détail
+
+## Annexes`;
+    const structure = SectionUtils.splitNote(h3, 3);
+
+    expect(structure.preamble).toEqual(['## Sprint 12', '']);
+    expect(structure.sections.map(section => section.name)).toEqual(['À faire']);
+    expect(structure.sections[0].lines).toContain('#### Détail');
+
+    const written = SectionUtils.applyLayoutChange(h3, 'layout_kanban',
+      layoutService.getModel('layout_kanban')!, { 'À faire': 'À faire' }, '', { from: 3, to: 1 });
+    expect(written).toContain('# À faire\n\n- Tâche A');
+    expect(written).toContain('\n# En cours\n');
+  });
+
+  describe('Emplacement des sections', () => {
+    test('devrait situer chaque section en lignes et en caractères', () => {
+      const ranges = SectionUtils.locateSections(note);
+      const todo = ranges[0];
+
+      expect(ranges.map(range => range.name)).toEqual(['À faire', 'En cours', 'Terminé', 'Notes']);
+      expect(todo).toMatchObject({ start: 7, end: 10 });
+      expect(note.slice(todo.startOffset, todo.contentOffset)).toBe('## À faire\n');
+      expect(note.slice(todo.contentOffset, todo.endOffset)).toBe('- Tâche A\n\n');
+      expect(ranges[3].endOffset).toBe(note.length);
+    });
+
+    test('devrait situer les sections d\'après le cache de métadonnées', () => {
+      const headings = createMockHeadings(note);
+
+      expect(SectionUtils.locateSectionsFromHeadings(note, headings)).toEqual(SectionUtils.locateSections(note));
+      expect(SectionUtils.locateSectionsFromHeadings(note, headings, 2, note.length)).not.toBeNull();
+    });
+
+    test('devrait détecter un cache de métadonnées périmé', () => {
+      const headings = createMockHeadings(note);
+      const edited = note.replace('- Tâche A', '- Tâche A\n- Tâche A bis');
+
+      expect(SectionUtils.locateSectionsFromHeadings(edited, headings)).toBeNull();
+      expect(SectionUtils.locateSectionsFromHeadings(`${note}\n## Ajout`, headings, 2, note.length)).toBeNull();
+    });
+
+    test('devrait remplacer uniquement le contenu de la section', () => {
+      const ranges = SectionUtils.locateSections(note);
+
+      const middle = SectionUtils.replaceSectionContent(note, ranges[1], '- Tâche B\n- Tâche D\n');
+      expect(middle).toBe(note.replace('- Tâche B\n', '- Tâche B\n- Tâche D\n'));
+
+      const last = SectionUtils.replaceSectionContent(note, ranges[3], 'Fin');
+      expect(last.endsWith('## Notes\nFin')).toBe(true);
+      expect(SectionUtils.replaceSectionContent('## Vide', SectionUtils.locateSections('## Vide')[0], 'Texte'))
+        .toBe('## Vide\nTexte');
+    });
+  });
+
+  describe('Normalisation', () => {
+    const context = { date: '2025-01-01', title: 'Sprint', layout: 'layout_kanban' } as any;
+
+    test('devrait réordonner, créer les sections manquantes et conserver le reste', () => {
+      const shuffled = note
+        .replace('## À faire\n- Tâche A\n\n', '')
+        .replace('Remarques libres', 'Remarques libres\n\n## À faire\n- Tâche A\n');
+      const [todo, doing, done] = layoutService.getModel('layout_kanban')!;
+      const blocked = { title: 'Bloqué', x: 0, y: 0, w: 8, h: 12, content: '- [ ] ' };
+
+      const result = SectionUtils.normalizeNote(shuffled, [todo, blocked, doing, done], context);
+      const structure = SectionUtils.splitNote(result.after);
+
+      expect(result.reordered).toBe(true);
+      expect(result.added).toEqual(['Bloqué']);
+      expect(structure.frontmatter).toEqual(SectionUtils.splitNote(note).frontmatter);
+      expect(structure.preamble).toEqual(['', 'Objectif du sprint', '']);
+      expect(structure.sections.map(section => section.name)).toEqual(['À faire', 'Bloqué', 'En cours', 'Terminé', 'Notes']);
+      expect(structure.sections[0].lines).toEqual(['- Tâche A', '']);
+      expect(structure.sections[1].lines).toEqual(['', '- [ ] ', '']);
+      expect(result.after.endsWith('## Notes\nRemarques libres\n')).toBe(true);
+    });
+
+    test('ne devrait rien changer à une note déjà normalisée', () => {
+      const blocks = layoutService.getModel('layout_kanban')!.slice(0, 3);
+      const result = SectionUtils.normalizeNote(note, blocks, context);
+
+      expect(result).toEqual({ before: note, after: note, added: [], reordered: false });
+    });
+  });
+
+  describe('Sections en double', () => {
+    const duplicated = `## En cours
+- Tâche B
+
+## Terminé
+- Tâche C
+
+## en cours
+- Tâche D
+`;
+
+    test('devrait regrouper les sections de même nom', () => {
+      const groups = SectionUtils.findDuplicates(SectionUtils.locateSections(duplicated));
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].map(range => range.name)).toEqual(['En cours', 'en cours']);
+    });
+
+    test('devrait fusionner les occurrences dans la première', () => {
+      const [group] = SectionUtils.findDuplicates(SectionUtils.locateSections(duplicated));
+
+      expect(SectionUtils.mergeSections(duplicated, group))
+        .toBe('## En cours\n- Tâche B\n\n- Tâche D\n\n## Terminé\n- Tâche C\n\n');
+    });
+
+    test('devrait renommer une occurrence sans toucher à son contenu', () => {
+      const [, , second] = SectionUtils.locateSections(duplicated);
+
+      expect(SectionUtils.renameSection(duplicated, second, '## Bloqué'))
+        .toBe(duplicated.replace('## en cours', '## Bloqué'));
+    });
+  });
+
+  describe('Sections hors layout', () => {
+    test('devrait fusionner une section dans celle du bloc, même placée avant', () => {
+      const content = '## Backlog\n- Tâche X\n\n## À faire\n- Tâche A\n';
+      const [backlog] = SectionUtils.locateSections(content);
+
+      expect(SectionUtils.assignSection(content, backlog, 'À faire', 2))
+        .toBe('## À faire\n- Tâche X\n\n- Tâche A\n');
+    });
+
+    test('devrait renommer la section si le bloc n\'a pas encore de section', () => {
+      const content = '## À faire\n- Tâche A\n\n## Backlog\n- Tâche X';
+      const [, backlog] = SectionUtils.locateSections(content);
+
+      expect(SectionUtils.assignSection(content, backlog, 'En cours', 2))
+        .toBe('## À faire\n- Tâche A\n\n## En cours\n- Tâche X');
+    });
+  });
+
+  describe('Alias et titres localisés', () => {
+    test('devrait associer un bloc à une section par alias ou titre localisé', () => {
+      const [todo, inProgress, done] = layoutService.getModel('layout_kanban')!;
+
+      expect(SectionUtils.matchSection(todo, ['Backlog', 'todo'])).toBe('todo');
+      expect(SectionUtils.matchSection(inProgress, ['IN PROGRESS'])).toBe('IN PROGRESS');
+      expect(SectionUtils.matchSection(done, ['Archive'])).toBeUndefined();
+    });
+
+    test('devrait préférer le titre de référence à un alias', () => {
+      const [todo] = layoutService.getModel('layout_kanban')!;
+
+      expect(SectionUtils.matchSection(todo, ['To Do', 'À faire'])).toBe('À faire');
+    });
+
+    test('devrait créer les sections dans la langue demandée', () => {
+      const [todo] = layoutService.getModel('layout_kanban')!;
+
+      expect(SectionUtils.localizedTitle(todo, 'en')).toBe('To Do');
+      expect(SectionUtils.localizedTitle(todo, 'de')).toBe('À faire');
+      expect(SectionUtils.localizedTitle(todo, '')).toBe('À faire');
+    });
+  });
+});
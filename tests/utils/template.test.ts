@@ -0,0 +1,33 @@
+/**
+ * Tests de TemplateUtils - contenu initial des blocs
+ */
+
+import { TemplateUtils } from '../../src/utils/template';
+
+describe('TemplateUtils', () => {
+  const context = TemplateUtils.createContext('Sprint 12', 'layout_kanban', new Date(2026, 9, 19));
+
+  test('devrait construire le contexte de la note', () => {
+    expect(context).toEqual({
+      date: '2026-10-19',
+      title: 'Sprint 12',
+      week: '2026-W43',
+      layout: 'layout_kanban'
+    });
+  });
+
+  test('devrait remplacer les variables connues', () => {
+    const result = TemplateUtils.render('# {{title}} ({{ week }})\nCréé le {{date}} avec {{layout}}', context);
+
+    expect(result).toBe('# Sprint 12 (2026-W43)\nCréé le 2026-10-19 avec layout_kanban');
+  });
+
+  test('devrait laisser les variables inconnues intactes', () => {
+    expect(TemplateUtils.render('{{tp.date.now()}} {{author}}', context)).toBe('{{tp.date.now()}} {{author}}');
+  });
+
+  test('devrait calculer la semaine ISO en bordure d\'année', () => {
+    expect(TemplateUtils.formatWeek(new Date(2021, 0, 3))).toBe('2020-W53');
+    expect(TemplateUtils.formatWeek(new Date(2024, 11, 30))).toBe('2025-W01');
+  });
+});